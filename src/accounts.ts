@@ -0,0 +1,43 @@
+// Named Workflowy accounts from the environment:
+//   WORKFLOWY_API_KEY             the "default" account
+//   WORKFLOWY_API_KEY_<NAME>      an account called <name>, e.g. WORKFLOWY_API_KEY_WORK
+//   WORKFLOWY_DEFAULT_ACCOUNT     which account tools use when none is given
+
+export interface AccountConfig {
+  name: string;
+  apiKey: string;
+}
+
+const KEY_PREFIX = "WORKFLOWY_API_KEY_";
+
+export function parseAccounts(env: NodeJS.ProcessEnv): {
+  accounts: AccountConfig[];
+  defaultAccount: string;
+} {
+  const accounts: AccountConfig[] = [];
+  if (env.WORKFLOWY_API_KEY) accounts.push({ name: "default", apiKey: env.WORKFLOWY_API_KEY });
+  for (const [variable, value] of Object.entries(env)) {
+    if (!variable.startsWith(KEY_PREFIX) || !value) continue;
+    const name = variable.slice(KEY_PREFIX.length).toLowerCase();
+    if (!/^[a-z0-9_-]+$/.test(name)) {
+      throw new Error(`Invalid account name in ${variable}: use letters, digits, "_" or "-"`);
+    }
+    if (accounts.some((account) => account.name === name)) {
+      throw new Error(`Account "${name}" is configured more than once`);
+    }
+    accounts.push({ name, apiKey: value });
+  }
+  if (accounts.length === 0) {
+    throw new Error(
+      "WORKFLOWY_API_KEY environment variable is required (or WORKFLOWY_API_KEY_<NAME> for named accounts)"
+    );
+  }
+
+  const defaultAccount = env.WORKFLOWY_DEFAULT_ACCOUNT?.toLowerCase() || accounts[0].name;
+  if (!accounts.some((account) => account.name === defaultAccount)) {
+    throw new Error(
+      `WORKFLOWY_DEFAULT_ACCOUNT "${defaultAccount}" is not a configured account (${accounts.map((a) => a.name).join(", ")})`
+    );
+  }
+  return { accounts, defaultAccount };
+}
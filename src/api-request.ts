@@ -0,0 +1,200 @@
+// Request layer around the Workflowy axios instance: per-endpoint throttling,
+// retries with jittered exponential backoff, and typed errors
+
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
+
+export class WorkflowyApiError extends Error {
+  constructor(
+    message: string,
+    public endpoint: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = "WorkflowyApiError";
+  }
+}
+
+export class RateLimitedError extends WorkflowyApiError {
+  constructor(
+    endpoint: string,
+    public retryAfter: number
+  ) {
+    super(
+      `Rate limited by Workflowy API on ${endpoint}. Please wait ${retryAfter} seconds before trying again.`,
+      endpoint,
+      429
+    );
+    this.name = "RateLimitedError";
+  }
+}
+
+export class NotFoundError extends WorkflowyApiError {
+  constructor(endpoint: string, detail: string) {
+    super(
+      `Not found (${endpoint}): ${detail}. Check the node ID, or use workflowy_search to find the node.`,
+      endpoint,
+      404
+    );
+    this.name = "NotFoundError";
+  }
+}
+
+export class AuthError extends WorkflowyApiError {
+  constructor(endpoint: string, status: number, detail: string) {
+    super(
+      `Workflowy rejected the API key (${status}): ${detail}. Check that WORKFLOWY_API_KEY is set to a valid key.`,
+      endpoint,
+      status
+    );
+    this.name = "AuthError";
+  }
+}
+
+export class NetworkError extends WorkflowyApiError {
+  constructor(endpoint: string, detail: string) {
+    super(
+      `Could not reach Workflowy (${endpoint}): ${detail}. Check the network connection and try again.`,
+      endpoint
+    );
+    this.name = "NetworkError";
+  }
+}
+
+type Method = "get" | "post" | "delete";
+
+export interface RequestLayerOptions {
+  // Minimum gap between calls to the same endpoint, in ms
+  minInterval?: Record<string, number>;
+  defaultMinInterval?: number;
+  // Longest we will wait for a throttle window or retry_after before failing
+  maxWaitMs?: number;
+  maxRetries?: number;
+  baseBackoffMs?: number;
+}
+
+const DEFAULT_MIN_INTERVAL: Record<string, number> = {
+  // The export endpoint allows about 1 request per minute
+  "GET /nodes-export": 60000,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// "POST /nodes/abc-123/move" -> "POST /nodes/:id/move", so throttling is per endpoint
+export function endpointKey(method: Method, url: string): string {
+  const path = url
+    .split("?")[0]
+    .split("/")
+    .map((segment, index) => (index >= 2 && segment !== "" && index % 2 === 0 ? ":id" : segment))
+    .join("/");
+  return `${method.toUpperCase()} ${path}`;
+}
+
+export class RequestLayer {
+  private nextAllowed = new Map<string, number>();
+  private options: Required<RequestLayerOptions>;
+
+  constructor(
+    private http: AxiosInstance,
+    options: RequestLayerOptions = {}
+  ) {
+    this.options = {
+      minInterval: { ...DEFAULT_MIN_INTERVAL, ...options.minInterval },
+      defaultMinInterval: options.defaultMinInterval ?? 0,
+      maxWaitMs: options.maxWaitMs ?? 10000,
+      maxRetries: options.maxRetries ?? 3,
+      baseBackoffMs: options.baseBackoffMs ?? 500,
+    };
+  }
+
+  get<T = any>(url: string, config?: AxiosRequestConfig) {
+    return this.request<T>("get", url, config);
+  }
+
+  post<T = any>(url: string, data?: unknown, config?: AxiosRequestConfig) {
+    return this.request<T>("post", url, { ...config, data });
+  }
+
+  delete<T = any>(url: string, config?: AxiosRequestConfig) {
+    return this.request<T>("delete", url, config);
+  }
+
+  // Wait for the endpoint's throttle window, or fail fast if it is too far off,
+  // then reserve the next window. Returns a function that gives the
+  // reservation back, for a call that failed without using up the allowance.
+  private async throttle(endpoint: string): Promise<() => void> {
+    const wait = (this.nextAllowed.get(endpoint) || 0) - Date.now();
+    if (wait > this.options.maxWaitMs) {
+      throw new RateLimitedError(endpoint, Math.ceil(wait / 1000));
+    }
+    if (wait > 0) await sleep(wait);
+    const interval = this.options.minInterval[endpoint] ?? this.options.defaultMinInterval;
+    const reserved = Date.now() + interval;
+    this.nextAllowed.set(endpoint, reserved);
+    return () => {
+      if (this.nextAllowed.get(endpoint) === reserved) this.nextAllowed.delete(endpoint);
+    };
+  }
+
+  private backoff(attempt: number): number {
+    const exponential = this.options.baseBackoffMs * 2 ** attempt;
+    return Math.round(exponential * (0.5 + Math.random()));
+  }
+
+  private async request<T>(
+    method: Method,
+    url: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<AxiosResponse<T>> {
+    const endpoint = endpointKey(method, url);
+    // Only reads are safe to repeat after an unknown outcome; a rate-limited
+    // write was rejected outright, so it may be retried too
+    const idempotent = method === "get";
+
+    for (let attempt = 0; ; attempt++) {
+      const release = await this.throttle(endpoint);
+      try {
+        return await this.http.request<T>({ ...config, method, url });
+      } catch (error) {
+        const typed = toTypedError(error, endpoint);
+        const canRetry = attempt < this.options.maxRetries;
+        // Only a success or a 429 holds the throttle window; otherwise a
+        // retry of the export would wait out its whole minute
+        if (!(typed instanceof RateLimitedError)) release();
+
+        if (typed instanceof RateLimitedError) {
+          const waitMs = typed.retryAfter * 1000;
+          this.nextAllowed.set(endpoint, Date.now() + waitMs);
+          if (!canRetry || waitMs > this.options.maxWaitMs) throw typed;
+          console.error(`[API] ${endpoint} rate limited, retrying in ${typed.retryAfter}s`);
+          continue;
+        }
+
+        const transient =
+          typed instanceof NetworkError || (typed.status !== undefined && typed.status >= 500);
+        if (idempotent && transient && canRetry) {
+          const delay = this.backoff(attempt);
+          console.error(`[API] ${endpoint} failed (${typed.message}), retrying in ${delay}ms`);
+          await sleep(delay);
+          continue;
+        }
+        throw typed;
+      }
+    }
+  }
+}
+
+export function toTypedError(error: unknown, endpoint: string): WorkflowyApiError {
+  if (error instanceof WorkflowyApiError) return error;
+  if (!axios.isAxiosError(error)) {
+    return new WorkflowyApiError(String((error as any)?.message ?? error), endpoint);
+  }
+  const status = error.response?.status;
+  const detail = error.response?.data?.message || error.message;
+  if (!error.response) return new NetworkError(endpoint, detail);
+  if (status === 429) {
+    return new RateLimitedError(endpoint, Number(error.response.data?.retry_after) || 60);
+  }
+  if (status === 404) return new NotFoundError(endpoint, detail);
+  if (status === 401 || status === 403) return new AuthError(endpoint, status, detail);
+  return new WorkflowyApiError(`Workflowy API error (${status}): ${detail}`, endpoint, status);
+}
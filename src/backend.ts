@@ -0,0 +1,123 @@
+// The Workflowy calls the client makes, behind an interface so the live API
+// can be swapped for the in-memory fake (WORKFLOWY_BACKEND=memory).
+// Parameters and results use the API's own shapes.
+
+import axios from "axios";
+import { RequestLayer } from "./api-request.js";
+import { MemoryBackend } from "./memory-backend.js";
+import type { WorkflowyNode } from "./outline-format.js";
+
+export const API_BASE_URL = "https://beta.workflowy.com/api/v1";
+
+export interface ApiNodeParams {
+  parent_id?: string;
+  name?: string;
+  note?: string;
+  priority?: number;
+  data?: { layoutMode?: string };
+}
+
+// What a create returns, and what the other mutations return
+export interface CreatedNode {
+  item_id: string;
+}
+
+export interface MutationResult {
+  status: string;
+}
+
+export interface WorkflowyTarget {
+  key: string;
+  type?: string;
+  name?: string;
+}
+
+export interface WorkflowyBackend {
+  // Every node in the account, flat; about one call a minute is allowed
+  exportNodes(): Promise<{ nodes: WorkflowyNode[] }>;
+  // Children of a node, or the top level when parentId is omitted
+  listNodes(parentId?: string): Promise<{ nodes: WorkflowyNode[] }>;
+  getNode(nodeId: string): Promise<{ node: WorkflowyNode }>;
+  createNode(params: ApiNodeParams): Promise<CreatedNode>;
+  updateNode(nodeId: string, params: ApiNodeParams): Promise<MutationResult>;
+  deleteNode(nodeId: string): Promise<MutationResult>;
+  // parent_id "None" is the top level
+  moveNode(
+    nodeId: string,
+    params: { parent_id: string; priority?: number }
+  ): Promise<MutationResult>;
+  completeNode(nodeId: string): Promise<MutationResult>;
+  uncompleteNode(nodeId: string): Promise<MutationResult>;
+  listTargets(): Promise<{ targets: WorkflowyTarget[] }>;
+}
+
+export class HttpBackend implements WorkflowyBackend {
+  // All calls go through the request layer for throttling, retries and typed errors
+  private client: RequestLayer;
+
+  constructor(apiKey: string, baseURL = API_BASE_URL) {
+    this.client = new RequestLayer(
+      axios.create({
+        baseURL,
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      })
+    );
+  }
+
+  async exportNodes() {
+    return (await this.client.get("/nodes-export")).data;
+  }
+
+  async listNodes(parentId?: string) {
+    const response = await this.client.get("/nodes", {
+      params: parentId ? { parent_id: parentId } : {},
+    });
+    return response.data;
+  }
+
+  async getNode(nodeId: string) {
+    return (await this.client.get(`/nodes/${nodeId}`)).data;
+  }
+
+  async createNode(params: ApiNodeParams) {
+    return (await this.client.post("/nodes", params)).data;
+  }
+
+  async updateNode(nodeId: string, params: ApiNodeParams) {
+    return (await this.client.post(`/nodes/${nodeId}`, params)).data;
+  }
+
+  async deleteNode(nodeId: string) {
+    return (await this.client.delete(`/nodes/${nodeId}`)).data;
+  }
+
+  async moveNode(nodeId: string, params: { parent_id: string; priority?: number }) {
+    return (await this.client.post(`/nodes/${nodeId}/move`, params)).data;
+  }
+
+  async completeNode(nodeId: string) {
+    return (await this.client.post(`/nodes/${nodeId}/complete`)).data;
+  }
+
+  async uncompleteNode(nodeId: string) {
+    return (await this.client.post(`/nodes/${nodeId}/uncomplete`)).data;
+  }
+
+  async listTargets() {
+    return (await this.client.get("/targets")).data;
+  }
+}
+
+// WORKFLOWY_BACKEND=memory runs against an in-memory outline instead of the
+// live API, optionally seeded from the export-format file in WORKFLOWY_FAKE_SEED
+export function createBackend(apiKey: string, env: NodeJS.ProcessEnv): WorkflowyBackend {
+  const kind = (env.WORKFLOWY_BACKEND || "api").toLowerCase();
+  if (kind === "api") return new HttpBackend(apiKey);
+  if (kind === "memory") {
+    return MemoryBackend.fromEnv(env);
+  }
+  throw new Error(`Unknown backend "${env.WORKFLOWY_BACKEND}" (expected api or memory)`);
+}
@@ -0,0 +1,232 @@
+// Ordered batches of mutations, run one at a time with per-operation results.
+// A create may declare a "ref"; later operations can use "$ref" wherever they
+// take a node ID to mean the node that create produced.
+
+import { RateLimitedError } from "./api-request.js";
+import type { CreatedNode, MutationResult } from "./backend.js";
+
+export type BatchOperation =
+  | {
+      op: "create";
+      ref?: string;
+      parentId?: string;
+      name: string;
+      note?: string;
+      priority?: number;
+      layoutMode?: string;
+    }
+  | {
+      op: "update";
+      nodeId: string;
+      name?: string;
+      note?: string;
+      priority?: number;
+      layoutMode?: string;
+    }
+  | { op: "move"; nodeId: string; parentId: string; priority?: number }
+  | { op: "complete" | "uncomplete" | "delete"; nodeId: string };
+
+export interface BatchResult {
+  index: number;
+  op: string;
+  status: "ok" | "error" | "rate_limited" | "skipped";
+  nodeId?: string;
+  ref?: string;
+  error?: string;
+  // For rate_limited: seconds the API asked to wait before the next call
+  retryAfter?: number;
+}
+
+// The WorkflowyClient methods a batch needs
+export interface BatchClient {
+  createNode(params: {
+    parentId?: string;
+    name: string;
+    note?: string;
+    priority?: number;
+    layoutMode?: string;
+  }): Promise<CreatedNode>;
+  updateNode(
+    nodeId: string,
+    params: { name?: string; note?: string; priority?: number; layoutMode?: string }
+  ): Promise<MutationResult>;
+  moveNode(nodeId: string, parentId: string, priority?: number): Promise<MutationResult>;
+  completeNode(nodeId: string): Promise<MutationResult>;
+  uncompleteNode(nodeId: string): Promise<MutationResult>;
+  deleteNode(nodeId: string): Promise<MutationResult>;
+  resolveNodeRef(ref: string): Promise<string>;
+}
+
+export const BATCH_OPS = ["create", "update", "move", "complete", "uncomplete", "delete"] as const;
+
+// Check the shape of every operation before anything runs
+export function validateBatch(operations: unknown): string[] {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return ["operations must be a non-empty array"];
+  }
+  const problems: string[] = [];
+  const refs = new Set<string>();
+  (operations as (Record<string, unknown> | null)[]).forEach((operation, index) => {
+    const where = `operations[${index}]`;
+    if (!operation || !BATCH_OPS.includes(operation.op as BatchOperation["op"])) {
+      problems.push(`${where}.op must be one of ${BATCH_OPS.join(", ")}`);
+      return;
+    }
+    if (operation.op === "create") {
+      if (typeof operation.name !== "string") problems.push(`${where}.name is required`);
+      if (operation.ref !== undefined) {
+        if (typeof operation.ref !== "string" || !/^[\w-]+$/.test(operation.ref)) {
+          problems.push(`${where}.ref must be letters, digits, "_" or "-"`);
+        } else if (refs.has(operation.ref)) {
+          problems.push(`${where}.ref "${operation.ref}" is already used by an earlier create`);
+        } else {
+          refs.add(operation.ref);
+        }
+      }
+    } else if (typeof operation.nodeId !== "string" || operation.nodeId.length === 0) {
+      problems.push(`${where}.nodeId is required`);
+    }
+    if (operation.op === "move" && typeof operation.parentId !== "string") {
+      problems.push(`${where}.parentId is required`);
+    }
+    for (const key of ["nodeId", "parentId"]) {
+      const value = operation[key];
+      if (typeof value === "string" && value.startsWith("$") && !refs.has(value.slice(1))) {
+        problems.push(`${where}.${key} refers to ${value}, which no earlier create declares`);
+      }
+    }
+  });
+  return problems;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Retry a call that was rate limited, waiting as long as the API asks. The
+// request layer only waits out short limits itself; a batch is worth longer,
+// but all its waits together stay within the batch's wait budget.
+async function withRateLimitRetry<T>(
+  call: () => Promise<T>,
+  maxRetries: number,
+  budget: { remainingMs: number }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (!(error instanceof RateLimitedError) || attempt >= maxRetries) throw error;
+      const waitMs = error.retryAfter * 1000;
+      if (waitMs > budget.remainingMs) throw error;
+      budget.remainingMs -= waitMs;
+      console.error(`[Batch] Rate limited, retrying in ${error.retryAfter}s`);
+      await sleep(waitMs);
+    }
+  }
+}
+
+export async function runBatch(
+  client: BatchClient,
+  operations: BatchOperation[],
+  options: {
+    stopOnError?: boolean;
+    delayMs?: number;
+    maxRetries?: number;
+    // Longest the whole batch may spend waiting out rate limits
+    maxWaitMs?: number;
+  } = {}
+): Promise<{
+  completed: number;
+  failed: number;
+  rateLimited: number;
+  skipped: number;
+  results: BatchResult[];
+}> {
+  const { stopOnError = true, delayMs = 0, maxRetries = 3, maxWaitMs = 120000 } = options;
+  const budget = { remainingMs: maxWaitMs };
+  const refs = new Map<string, string>();
+  const results: BatchResult[] = [];
+  let stopped = false;
+
+  // "$ref" placeholders become the ID of the node created earlier
+  const resolve = async (value: string) => {
+    if (!value.startsWith("$")) return client.resolveNodeRef(value);
+    const id = refs.get(value.slice(1));
+    if (!id) throw new Error(`${value} was not created (its create operation failed)`);
+    return id;
+  };
+
+  for (let index = 0; index < operations.length; index++) {
+    const operation = operations[index];
+    const result: BatchResult = { index, op: operation.op, status: "ok" };
+    results.push(result);
+    if (stopped) {
+      result.status = "skipped";
+      continue;
+    }
+    if (index > 0 && delayMs > 0) await sleep(delayMs);
+
+    try {
+      switch (operation.op) {
+        case "create": {
+          const { op: _op, ref, parentId, ...params } = operation;
+          const resolvedParent = parentId ? await resolve(parentId) : undefined;
+          const created = await withRateLimitRetry(
+            () => client.createNode({ ...params, parentId: resolvedParent }),
+            maxRetries,
+            budget
+          );
+          result.nodeId = created.item_id;
+          if (ref) {
+            result.ref = ref;
+            refs.set(ref, created.item_id);
+          }
+          break;
+        }
+        case "update": {
+          const { op: _op, nodeId, ...params } = operation;
+          result.nodeId = await resolve(nodeId);
+          await withRateLimitRetry(
+            () => client.updateNode(result.nodeId!, params),
+            maxRetries,
+            budget
+          );
+          break;
+        }
+        case "move": {
+          result.nodeId = await resolve(operation.nodeId);
+          const parentId = await resolve(operation.parentId);
+          await withRateLimitRetry(
+            () => client.moveNode(result.nodeId!, parentId, operation.priority),
+            maxRetries,
+            budget
+          );
+          break;
+        }
+        case "complete":
+          result.nodeId = await resolve(operation.nodeId);
+          await withRateLimitRetry(() => client.completeNode(result.nodeId!), maxRetries, budget);
+          break;
+        case "uncomplete":
+          result.nodeId = await resolve(operation.nodeId);
+          await withRateLimitRetry(() => client.uncompleteNode(result.nodeId!), maxRetries, budget);
+          break;
+        case "delete":
+          result.nodeId = await resolve(operation.nodeId);
+          await withRateLimitRetry(() => client.deleteNode(result.nodeId!), maxRetries, budget);
+          break;
+      }
+    } catch (error: any) {
+      result.status = error instanceof RateLimitedError ? "rate_limited" : "error";
+      result.error = error.message;
+      if (error instanceof RateLimitedError) result.retryAfter = error.retryAfter;
+      if (stopOnError) stopped = true;
+    }
+  }
+
+  return {
+    completed: results.filter((r) => r.status === "ok").length,
+    failed: results.filter((r) => r.status === "error").length,
+    rateLimited: results.filter((r) => r.status === "rate_limited").length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+    results,
+  };
+}
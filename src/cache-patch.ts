@@ -0,0 +1,119 @@
+// Apply a successful mutation to a cached flat node list without refetching.
+// Every function returns a new array and never modifies the nodes it was
+// given, so earlier snapshots handed out to callers stay intact.
+
+import type { WorkflowyNode } from "./outline-format.js";
+
+// Export timestamps are Unix seconds
+export function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// Place a node among its new siblings at the given priority (end if omitted)
+// and renumber the siblings so their order matches what the server does
+function placeAmongSiblings(
+  nodes: WorkflowyNode[],
+  node: WorkflowyNode,
+  parentId: string | null,
+  priority?: number
+): WorkflowyNode[] {
+  const others = nodes.filter((n) => n.id !== node.id);
+  const siblings = others
+    .filter((n) => (n.parent_id || null) === parentId)
+    .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+  const index =
+    priority === undefined ? siblings.length : Math.max(0, Math.min(priority, siblings.length));
+  siblings.splice(index, 0, { ...node, parent_id: parentId });
+
+  const renumbered = new Map(siblings.map((n, i) => [n.id, { ...n, priority: i }]));
+  const result = others.map((n) => renumbered.get(n.id) || n);
+  result.push(renumbered.get(node.id)!);
+  return result;
+}
+
+export function insertNode(
+  nodes: WorkflowyNode[],
+  params: {
+    id: string;
+    parentId?: string;
+    name: string;
+    note?: string;
+    priority?: number;
+    layoutMode?: string;
+  }
+): WorkflowyNode[] {
+  const timestamp = nowSeconds();
+  const node: WorkflowyNode = {
+    id: params.id,
+    parent_id: params.parentId || null,
+    // Set by placeAmongSiblings
+    priority: 0,
+    name: params.name,
+    note: params.note ?? null,
+    completed: false,
+    data: { layoutMode: params.layoutMode || "bullets" },
+    createdAt: timestamp,
+    modifiedAt: timestamp,
+    completedAt: null,
+  };
+  return placeAmongSiblings(nodes, node, params.parentId || null, params.priority);
+}
+
+export function patchNode(
+  nodes: WorkflowyNode[],
+  nodeId: string,
+  params: { name?: string; note?: string; priority?: number; layoutMode?: string }
+): WorkflowyNode[] {
+  const existing = nodes.find((n) => n.id === nodeId);
+  if (!existing) return nodes;
+
+  const updated = { ...existing, modifiedAt: nowSeconds() };
+  if (params.name !== undefined) updated.name = params.name;
+  if (params.note !== undefined) updated.note = params.note;
+  if (params.layoutMode) updated.data = { ...existing.data, layoutMode: params.layoutMode };
+
+  const patched = nodes.map((n) => (n.id === nodeId ? updated : n));
+  return params.priority === undefined
+    ? patched
+    : placeAmongSiblings(patched, updated, updated.parent_id || null, params.priority);
+}
+
+export function moveNode(
+  nodes: WorkflowyNode[],
+  nodeId: string,
+  parentId: string | null,
+  priority?: number
+): WorkflowyNode[] {
+  const existing = nodes.find((n) => n.id === nodeId);
+  if (!existing) return nodes;
+  return placeAmongSiblings(nodes, { ...existing, modifiedAt: nowSeconds() }, parentId, priority);
+}
+
+export function setCompleted(
+  nodes: WorkflowyNode[],
+  nodeId: string,
+  completed: boolean
+): WorkflowyNode[] {
+  const timestamp = nowSeconds();
+  return nodes.map((n) =>
+    n.id === nodeId
+      ? { ...n, completed, completedAt: completed ? timestamp : null, modifiedAt: timestamp }
+      : n
+  );
+}
+
+export function removeSubtree(nodes: WorkflowyNode[], nodeId: string): WorkflowyNode[] {
+  const removed = new Set([nodeId]);
+  // Parents may appear after their children in the export, so repeat until stable
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const n of nodes) {
+      if (!removed.has(n.id) && n.parent_id && removed.has(n.parent_id)) {
+        removed.add(n.id);
+        grew = true;
+      }
+    }
+  }
+  return nodes.filter((n) => !removed.has(n.id));
+}
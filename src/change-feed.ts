@@ -0,0 +1,162 @@
+// History of outline snapshots and the differences between them
+
+import { FlatNode, isCompleted } from "./outline-format.js";
+import { breadcrumb, plainName } from "./paths.js";
+import { ArgumentError } from "./schema.js";
+
+export interface Snapshot {
+  id: string;
+  timestamp: number; // ms since epoch, when the data was fetched
+  source: "api" | "disk";
+  nodes: FlatNode[];
+}
+
+export type ChangeType =
+  "added" | "deleted" | "renamed" | "note_edited" | "moved" | "completed" | "uncompleted";
+
+export interface Change {
+  type: ChangeType;
+  id: string;
+  name: string;
+  breadcrumb: string;
+  // Extra nodes added or deleted along with this one
+  descendantCount?: number;
+  before?: string | null;
+  after?: string | null;
+}
+
+// Keeps the most recent snapshots, oldest first
+export class SnapshotHistory {
+  private snapshots: Snapshot[] = [];
+  private nextId = 1;
+
+  constructor(private limit: number) {}
+
+  record(nodes: FlatNode[], timestamp: number, source: "api" | "disk"): Snapshot {
+    const snapshot = { id: `snap-${this.nextId++}`, timestamp, source, nodes };
+    this.snapshots.push(snapshot);
+    if (this.snapshots.length > this.limit) this.snapshots.shift();
+    return snapshot;
+  }
+
+  list(): Omit<Snapshot, "nodes">[] {
+    return this.snapshots.map(({ id, timestamp, source }) => ({ id, timestamp, source }));
+  }
+
+  get(id: string): Snapshot | undefined {
+    return this.snapshots.find((s) => s.id === id);
+  }
+
+  // Latest snapshot taken at or before the given time, else the oldest one
+  atOrBefore(timestamp: number): Snapshot | undefined {
+    let match: Snapshot | undefined;
+    for (const snapshot of this.snapshots) {
+      if (snapshot.timestamp <= timestamp) match = snapshot;
+    }
+    return match || this.snapshots[0];
+  }
+}
+
+// Accepts ISO dates, epoch seconds or milliseconds, and "today"/"yesterday"
+export function parseSinceTime(value: string | number, field = "since"): number {
+  if (typeof value === "number") return value < 1e12 ? value * 1000 : value;
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === "today" || trimmed === "yesterday") {
+    const midnight = new Date();
+    midnight.setHours(0, 0, 0, 0);
+    if (trimmed === "yesterday") midnight.setDate(midnight.getDate() - 1);
+    return midnight.getTime();
+  }
+  if (/^\d+$/.test(trimmed)) return parseSinceTime(Number(trimmed));
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new ArgumentError([
+      {
+        field,
+        message: `must be an ISO date, epoch time, "today" or "yesterday" (got "${value}")`,
+      },
+    ]);
+  }
+  return parsed;
+}
+
+// Diff two snapshots by node ID. Added and deleted subtrees are reported once,
+// at their top-most node, with a count of the descendants that went with it.
+export function diffSnapshots(before: FlatNode[], after: FlatNode[]): Change[] {
+  const beforeMap = new Map(before.map((n) => [n.id, n]));
+  const afterMap = new Map(after.map((n) => [n.id, n]));
+  const changes: Change[] = [];
+
+  const collapse = (
+    ids: Set<string>,
+    nodeMap: Map<string, FlatNode>,
+    type: "added" | "deleted"
+  ) => {
+    const topLevel = new Map<string, number>();
+    for (const id of ids) {
+      let top = id;
+      let parentId = nodeMap.get(id)?.parent_id || null;
+      while (parentId && ids.has(parentId)) {
+        top = parentId;
+        parentId = nodeMap.get(parentId)?.parent_id || null;
+      }
+      topLevel.set(top, (topLevel.get(top) || 0) + (top === id ? 0 : 1));
+    }
+    for (const [id, descendantCount] of topLevel) {
+      const node = nodeMap.get(id)!;
+      const change: Change = {
+        type,
+        id,
+        name: plainName(node.name),
+        breadcrumb: breadcrumb(id, nodeMap),
+      };
+      if (descendantCount > 0) change.descendantCount = descendantCount;
+      changes.push(change);
+    }
+  };
+
+  const added = new Set(after.filter((n) => !beforeMap.has(n.id)).map((n) => n.id));
+  const deleted = new Set(before.filter((n) => !afterMap.has(n.id)).map((n) => n.id));
+  collapse(added, afterMap, "added");
+  collapse(deleted, beforeMap, "deleted");
+
+  for (const node of after) {
+    const previous = beforeMap.get(node.id);
+    if (!previous) continue;
+    const base = {
+      id: node.id,
+      name: plainName(node.name),
+      breadcrumb: breadcrumb(node.id, afterMap),
+    };
+
+    if ((previous.name || "") !== (node.name || "")) {
+      changes.push({
+        type: "renamed",
+        ...base,
+        before: previous.name ?? null,
+        after: node.name ?? null,
+      });
+    }
+    if ((previous.note || "") !== (node.note || "")) {
+      changes.push({
+        type: "note_edited",
+        ...base,
+        before: previous.note ?? null,
+        after: node.note ?? null,
+      });
+    }
+    if ((previous.parent_id || null) !== (node.parent_id || null)) {
+      changes.push({
+        type: "moved",
+        ...base,
+        before: breadcrumb(node.id, beforeMap),
+        after: base.breadcrumb,
+      });
+    }
+    if (isCompleted(previous) !== isCompleted(node)) {
+      changes.push({ type: isCompleted(node) ? "completed" : "uncompleted", ...base });
+    }
+  }
+
+  return changes;
+}
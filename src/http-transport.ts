@@ -0,0 +1,274 @@
+// Streamable HTTP transport, so several clients can share one server:
+//   POST/GET/DELETE /mcp   MCP sessions, one Server per session
+//   GET /health            liveness, without authentication
+// Requests to /mcp need "Authorization: Bearer <token>" when a token is set,
+// and a Host (and Origin, if sent) on the allow-list, so a web page cannot
+// reach a local server through DNS rebinding.
+// A session with no request for the idle timeout is closed, and new sessions
+// are refused while the session limit is reached.
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse,
+} from "node:http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export type TransportKind = "stdio" | "http";
+
+export interface TransportOptions {
+  transport: TransportKind;
+  host: string;
+  port: number;
+  token?: string;
+  // Host names a request's Host and Origin may carry; loopback names if unset
+  allowedHosts?: string[];
+  sessionIdleMs: number;
+  maxSessions: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  // Requests still open, including SSE streams; the idle timer waits for none
+  active: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+const WILDCARD_HOSTS = new Set(["0.0.0.0", "::"]);
+
+function positiveInteger(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name} "${value}" (expected a positive integer)`);
+  }
+  return parsed;
+}
+
+// --http, --transport=, --host= and --port= on the command line win over
+// WORKFLOWY_TRANSPORT, WORKFLOWY_HTTP_HOST and WORKFLOWY_HTTP_PORT. The token
+// is only read from WORKFLOWY_HTTP_TOKEN, so it never shows in a process list.
+// Session limits come from WORKFLOWY_HTTP_SESSION_TIMEOUT (seconds) and
+// WORKFLOWY_HTTP_MAX_SESSIONS. WORKFLOWY_HTTP_ALLOWED_HOSTS lists the host
+// names clients may use, defaulting to loopback names and the listen host.
+export function parseTransportOptions(argv: string[], env: NodeJS.ProcessEnv): TransportOptions {
+  let transport = env.WORKFLOWY_TRANSPORT || "stdio";
+  let host = env.WORKFLOWY_HTTP_HOST || "127.0.0.1";
+  let port = env.WORKFLOWY_HTTP_PORT || "3000";
+  for (const arg of argv) {
+    if (arg === "--http") transport = "http";
+    else if (arg === "--stdio") transport = "stdio";
+    else if (arg.startsWith("--transport=")) transport = arg.slice("--transport=".length);
+    else if (arg.startsWith("--host=")) host = arg.slice("--host=".length);
+    else if (arg.startsWith("--port=")) port = arg.slice("--port=".length);
+  }
+  transport = transport.toLowerCase();
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Unknown transport "${transport}" (expected stdio or http)`);
+  }
+  const portNumber = Number(port);
+  if (!Number.isInteger(portNumber) || portNumber < 0 || portNumber > 65535) {
+    throw new Error(`Invalid HTTP port "${port}"`);
+  }
+  const token = env.WORKFLOWY_HTTP_TOKEN || undefined;
+  if (transport === "http" && !token && !LOOPBACK_HOSTS.has(host)) {
+    throw new Error(
+      `WORKFLOWY_HTTP_TOKEN is required to listen on ${host}; without a token the server only listens on localhost`
+    );
+  }
+  const allowedHosts = (env.WORKFLOWY_HTTP_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (allowedHosts.length === 0) {
+    if (transport === "http" && WILDCARD_HOSTS.has(host)) {
+      throw new Error(
+        `WORKFLOWY_HTTP_ALLOWED_HOSTS is required to listen on ${host}: list the host names clients connect with`
+      );
+    }
+    allowedHosts.push(...LOOPBACK_HOSTS);
+    if (!LOOPBACK_HOSTS.has(host)) allowedHosts.push(host.toLowerCase());
+  }
+  const sessionIdleMs =
+    positiveInteger(
+      env.WORKFLOWY_HTTP_SESSION_TIMEOUT || "1800",
+      "WORKFLOWY_HTTP_SESSION_TIMEOUT"
+    ) * 1000;
+  const maxSessions = positiveInteger(
+    env.WORKFLOWY_HTTP_MAX_SESSIONS || "100",
+    "WORKFLOWY_HTTP_MAX_SESSIONS"
+  );
+  return { transport, host, port: portNumber, token, allowedHosts, sessionIdleMs, maxSessions };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// A JSON-RPC error response for requests rejected before reaching a session
+function sendRpcError(res: ServerResponse, status: number, message: string, headers = {}) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null }, headers);
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// The host name in a Host header or an Origin, without port or IPv6 brackets
+function hostnameOf(value: string): string | undefined {
+  try {
+    const url = new URL(value.includes("://") ? value : `http://${value}`);
+    return url.hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return undefined;
+  }
+}
+
+// The Host, and the Origin when a browser sends one, must name an allowed host
+function hostRefusal(req: IncomingMessage, allowed: Set<string>): string | undefined {
+  const host = req.headers.host || "";
+  const hostname = hostnameOf(host);
+  if (!hostname || !allowed.has(hostname)) return `Host "${host}" is not allowed`;
+  const origin = req.headers.origin;
+  if (origin === undefined) return undefined;
+  const originHost = hostnameOf(origin);
+  if (!originHost || !allowed.has(originHost)) return `Origin "${origin}" is not allowed`;
+  return undefined;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+export async function startHttpServer(
+  options: TransportOptions,
+  createServer: () => Server,
+  health: () => Record<string, unknown> = () => ({})
+): Promise<HttpServer> {
+  const sessions = new Map<string, Session>();
+  const allowedHosts = new Set(options.allowedHosts ?? LOOPBACK_HOSTS);
+
+  // Closing the server closes its transport, which drops the session, and
+  // runs the server's onclose, which stops its change listener
+  const scheduleIdleClose = (session: Session) => {
+    clearTimeout(session.idleTimer);
+    if (session.active > 0) return;
+    session.idleTimer = setTimeout(() => {
+      console.error(`[HTTP] Session ${session.transport.sessionId} idle, closing`);
+      session.server.close().catch((error) => {
+        console.error(`[HTTP] Could not close idle session: ${error.message}`);
+      });
+    }, options.sessionIdleMs);
+    session.idleTimer.unref();
+  };
+
+  const handleMcp = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    let session = sessionId ? sessions.get(sessionId) : undefined;
+    if (sessionId && !session) {
+      sendRpcError(res, 404, `Unknown or expired session ${sessionId}`);
+      return;
+    }
+    if (!session) {
+      if (req.method !== "POST" || !isInitializeRequest(body)) {
+        sendRpcError(res, 400, "No session: start one with an initialize request");
+        return;
+      }
+      if (sessions.size >= options.maxSessions) {
+        sendRpcError(res, 503, `Too many open sessions (limit ${options.maxSessions})`, {
+          "Retry-After": "60",
+        });
+        return;
+      }
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, created);
+          console.error(`[HTTP] Session ${id} started (${sessions.size} open)`);
+        },
+      });
+      const created: Session = { transport, server: createServer(), active: 0 };
+      transport.onclose = () => {
+        clearTimeout(created.idleTimer);
+        if (transport.sessionId && sessions.delete(transport.sessionId)) {
+          console.error(`[HTTP] Session ${transport.sessionId} closed (${sessions.size} open)`);
+        }
+      };
+      await created.server.connect(transport);
+      session = created;
+    }
+
+    const current = session;
+    current.active++;
+    clearTimeout(current.idleTimer);
+    res.once("close", () => {
+      current.active--;
+      scheduleIdleClose(current);
+    });
+    await current.transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    const path = (req.url || "/").split("?")[0];
+    if (path === "/health" && req.method === "GET") {
+      sendJson(res, 200, { status: "ok", sessions: sessions.size, ...health() });
+      return;
+    }
+    if (path !== "/mcp") {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    const refusal = hostRefusal(req, allowedHosts);
+    if (refusal) {
+      sendRpcError(res, 403, refusal);
+      return;
+    }
+    if (options.token && !isAuthorized(req, options.token)) {
+      sendRpcError(res, 401, "Missing or invalid bearer token", {
+        "WWW-Authenticate": "Bearer",
+      });
+      return;
+    }
+    handleMcp(req, res).catch((error) => {
+      console.error(`[HTTP] ${req.method} /mcp failed: ${error.message}`);
+      if (!res.headersSent) {
+        const status = error instanceof SyntaxError || /too large/.test(error.message) ? 400 : 500;
+        sendRpcError(res, status, error.message);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  const address = httpServer.address();
+  const port = typeof address === "object" && address ? address.port : options.port;
+  console.error(
+    `Workflowy MCP Server listening on http://${options.host}:${port}/mcp` +
+      (options.token ? " (bearer token required)" : " (no token: localhost only)")
+  );
+  return httpServer;
+}
@@ -3,30 +3,106 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  GetPromptRequest,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequest,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  McpError,
+  Tool,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import axios, { AxiosInstance } from "axios";
+import axios from "axios";
+import { RateLimitedError, WorkflowyApiError } from "./api-request.js";
+import {
+  buildChildrenMap,
+  collectSubtree,
+  ExportFormat,
+  FlatNode,
+  isCompleted,
+  OutlineFormat,
+  OutlineItem,
+  parseOutline,
+  renderMarkdown,
+  renderOpml,
+  renderPlainText,
+  WorkflowyNode,
+  WorkflowyNodeTree,
+} from "./outline-format.js";
+import {
+  breadcrumb,
+  looksLikeNodeId,
+  NodePathError,
+  resolvePath,
+  withBreadcrumbs,
+} from "./paths.js";
+import { parseAccounts } from "./accounts.js";
+import { ApiNodeParams, createBackend, WorkflowyBackend } from "./backend.js";
+import { BatchOperation, runBatch, validateBatch } from "./batch.js";
+import * as cachePatch from "./cache-patch.js";
+import { diffSnapshots, parseSinceTime, SnapshotHistory } from "./change-feed.js";
+import { describeEntry, Journal, JournalEntry, PriorState, undoBlocker } from "./journal.js";
+import { buildPrompt, PROMPTS } from "./prompts.js";
+import { compileQuery, parseQuery, QueryParseError } from "./query.js";
+import { ListShape, shapeList, shapeTree, ShapeOptions, truncateText } from "./result-shaping.js";
+import { ArgumentError, enumOf, ObjectSchema, string, ToolInputError, validate } from "./schema.js";
+import { outlineStats, StatsOptions } from "./stats.js";
+import { planSort, sortedChildren, SortOptions } from "./sort.js";
+import { isValidTag, listTags, nodesWithTag, planTagRename } from "./tags.js";
+import { listTasks, parseDayArgument, TaskStatus } from "./tasks.js";
+import { findTemplates, renderTemplate, TemplateSummary } from "./templates.js";
+import {
+  NODE_URI_TEMPLATE,
+  parseResourceUri,
+  renderListing,
+  renderNodeResource,
+  renderRootResource,
+  resourceSignature,
+  ROOT_URI,
+  targetUri,
+} from "./resources.js";
+import {
+  CONFIRM_TOOLS,
+  ConfirmationTokens,
+  DRY_RUN_TOOLS,
+  MUTATING_TOOLS,
+  needsConfirmation,
+  parseServerMode,
+} from "./server-mode.js";
+import { parseTransportOptions, startHttpServer } from "./http-transport.js";
+import { findTool, ToolArguments, ToolDefinition, TOOLS } from "./tools.js";
+import { defaultCacheDir, SnapshotStore } from "./snapshot-store.js";
+import { Trash } from "./trash.js";
 
 // Workflowy API client with smart caching
 class WorkflowyClient {
-  private client: AxiosInstance;
+  private backend: WorkflowyBackend;
   private apiKey: string;
   private nodeCache: {
-    data: any[] | null;
+    data: WorkflowyNode[] | null;
     timestamp: number | null;
     ttl: number;
+    source: "api" | "disk" | null;
+    // Local edits applied since the last fetch; cleared by the next refresh
+    localChanges: number;
   };
+  private snapshotStore: SnapshotStore;
+  private history: SnapshotHistory;
+  private journal = new Journal(200);
+  private trash: Trash;
+  private changeListeners: ((nodes: WorkflowyNode[]) => void)[] = [];
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, backend: WorkflowyBackend) {
     this.apiKey = apiKey;
-    this.client = axios.create({
-      baseURL: "https://beta.workflowy.com/api/v1",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-    });
+    this.backend = backend;
 
     // Cache configuration: 90 seconds (safe margin under 1 req/min limit)
     // Can be overridden with WORKFLOWY_CACHE_TTL env var
@@ -38,13 +114,37 @@ class WorkflowyClient {
       data: null,
       timestamp: null,
       ttl: cacheTTL,
+      source: null,
+      localChanges: 0,
     };
 
     console.error(`[Cache] Initialized with TTL: ${cacheTTL}ms (${cacheTTL / 1000}s)`);
+
+    // Seed the cache from the last persisted snapshot (WORKFLOWY_CACHE_DIR).
+    // It keeps its original timestamp, so it is refreshed as soon as it is
+    // older than the TTL but remains available as a rate-limit fallback.
+    // Successive snapshots are kept for workflowy_changes_since
+    const historyLimit = process.env.WORKFLOWY_SNAPSHOT_HISTORY
+      ? parseInt(process.env.WORKFLOWY_SNAPSHOT_HISTORY)
+      : 10;
+    this.history = new SnapshotHistory(historyLimit);
+
+    this.trash = new Trash(defaultCacheDir(), apiKey, 50);
+    this.snapshotStore = new SnapshotStore(defaultCacheDir(), apiKey);
+    const stored = this.snapshotStore.load();
+    if (stored) {
+      this.nodeCache.data = stored.nodes;
+      this.nodeCache.timestamp = stored.timestamp;
+      this.nodeCache.source = "disk";
+      this.history.record(stored.nodes, stored.timestamp, "disk");
+      console.error(
+        `[Cache] Loaded ${stored.nodes.length} nodes from ${this.snapshotStore.path} (age: ${Math.round((Date.now() - stored.timestamp) / 1000)}s)`
+      );
+    }
   }
 
   // Get all nodes with smart caching (respects 1 req/min rate limit)
-  async getAllNodes(forceRefresh = false): Promise<any[]> {
+  async getAllNodes(forceRefresh = false): Promise<WorkflowyNode[]> {
     const now = Date.now();
     const cacheAge = this.nodeCache.timestamp ? now - this.nodeCache.timestamp : Infinity;
 
@@ -57,38 +157,140 @@ class WorkflowyClient {
     // Try to refresh cache
     try {
       console.error("[Cache] Fetching fresh data from /nodes-export...");
-      const response = await this.client.get("/nodes-export");
-      const nodes = response.data.nodes || [];
+      const response = await this.backend.exportNodes();
+      const nodes = response.nodes || [];
       this.nodeCache.data = nodes;
       this.nodeCache.timestamp = now;
+      this.nodeCache.source = "api";
+      this.nodeCache.localChanges = 0;
       console.error(`[Cache] Loaded ${nodes.length} nodes`);
+      this.history.record(nodes, now, "api");
+      await this.snapshotStore.save({ timestamp: now, nodes });
+      this.notifyChange(nodes);
       return nodes;
-    } catch (error: any) {
-      if (error.response?.status === 429) {
-        // Rate limited!
-        const retryAfter = error.response.data?.retry_after || 60;
-        if (this.nodeCache.data) {
-          // Use stale cache as fallback
-          console.error(
-            `[Cache] Rate limited (retry in ${retryAfter}s), using stale cache (age: ${Math.round(cacheAge / 1000)}s)`
-          );
-          return this.nodeCache.data;
-        }
-        throw new Error(
-          `Rate limited by Workflowy API. Please wait ${retryAfter} seconds before trying again.`
+    } catch (error) {
+      if (error instanceof RateLimitedError && this.nodeCache.data) {
+        // Use stale cache as fallback
+        console.error(
+          `[Cache] Rate limited (retry in ${error.retryAfter}s), using stale cache (age: ${Math.round(cacheAge / 1000)}s)`
         );
+        return this.nodeCache.data;
       }
       throw error;
     }
   }
 
-  // Invalidate cache when data changes
+  // Drop the cache when a change cannot be applied to it locally
   private invalidateCache() {
     if (this.nodeCache.data) {
       console.error("[Cache] Invalidating cache due to data modification");
     }
     this.nodeCache.data = null;
     this.nodeCache.timestamp = null;
+    this.nodeCache.source = null;
+    this.nodeCache.localChanges = 0;
+  }
+
+  // Write a successful mutation through to the cached node list. The cache
+  // keeps its fetch timestamp, so it is still reconciled with the server on
+  // the next refresh; until then it is dirty but consistent. Falls back to
+  // invalidation when the node involved is not in the cache.
+  private applyToCache(nodeId: string | null, update: (nodes: WorkflowyNode[]) => WorkflowyNode[]) {
+    const data = this.nodeCache.data;
+    if (!data) return;
+    if (nodeId && !data.some((n) => n.id === nodeId)) {
+      this.invalidateCache();
+      return;
+    }
+    this.nodeCache.data = update(data);
+    this.nodeCache.localChanges++;
+    this.notifyChange(this.nodeCache.data);
+  }
+
+  // The cached parent of a node just created or moved under parentId: null for
+  // the top level, or undefined when the cache cannot place it. A target key
+  // such as "inbox", or a parent the cache does not hold, is looked up from the
+  // node itself so the cached copy is never left under a parent it lacks.
+  private async cacheParentId(nodeId: string, parentId?: string) {
+    const data = this.nodeCache.data;
+    if (!data) return undefined;
+    // "None" is the API's name for the top level of the outline
+    if (!parentId || parentId === "None") return null;
+    if (data.some((n) => n.id === parentId)) return parentId;
+    try {
+      const actual = (await this.backend.getNode(nodeId)).node.parent_id || null;
+      return actual === null || data.some((n) => n.id === actual) ? actual : undefined;
+    } catch (error: any) {
+      console.error(`[Cache] Could not look up the parent of ${nodeId}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  // Called with the new node list whenever the cache is refreshed or edited.
+  // Returns a function that removes the listener.
+  onNodesChanged(listener: (nodes: WorkflowyNode[]) => void): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyChange(nodes: WorkflowyNode[]) {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(nodes);
+      } catch (error: any) {
+        console.error(`[Cache] Change listener failed: ${error.message}`);
+      }
+    }
+  }
+
+  get cacheTtl(): number {
+    return this.nodeCache.ttl;
+  }
+
+  private cachedNode(nodeId: string): WorkflowyNode | undefined {
+    return this.nodeCache.data?.find((n) => n.id === nodeId);
+  }
+
+  private priorState(nodeId: string): PriorState | null {
+    const node = this.cachedNode(nodeId);
+    if (!node) return null;
+    return {
+      name: node.name ?? null,
+      note: node.note ?? null,
+      priority: node.priority,
+      layoutMode: node.data?.layoutMode,
+      parentId: node.parent_id || null,
+    };
+  }
+
+  // undoOf is the entry this change reverses, when it is part of an undo
+  private recordJournal(entry: Omit<JournalEntry, "id" | "timestamp">, undoOf?: JournalEntry) {
+    const recorded = this.journal.record({
+      ...entry,
+      ...(undoOf ? { undoOf: undoOf.id } : {}),
+    });
+    if (undoOf && !undoOf.undoneBy) {
+      undoOf.undoneBy = recorded.id;
+    }
+  }
+
+  // Describe the snapshot currently backing searches and renders
+  getCacheStatus() {
+    const { data, timestamp, ttl, source } = this.nodeCache;
+    const ageMs = timestamp ? Date.now() - timestamp : null;
+    return {
+      source: data ? source : null,
+      nodeCount: data ? data.length : 0,
+      fetchedAt: timestamp ? new Date(timestamp).toISOString() : null,
+      ageSeconds: ageMs === null ? null : Math.round(ageMs / 1000),
+      ttlSeconds: ttl / 1000,
+      fresh: ageMs !== null && ageMs < ttl,
+      dirty: this.nodeCache.localChanges > 0,
+      localChanges: this.nodeCache.localChanges,
+      snapshotFile: this.snapshotStore.path,
+    };
   }
 
   // Search nodes across entire hierarchy
@@ -100,7 +302,7 @@ class WorkflowyClient {
       caseSensitive?: boolean;
       maxResults?: number;
     }
-  ): Promise<any[]> {
+  ): Promise<(WorkflowyNode & { breadcrumb: string })[]> {
     const {
       searchName = true,
       searchNote = true,
@@ -123,21 +325,202 @@ class WorkflowyClient {
       return false;
     });
 
-    return results.slice(0, maxResults);
+    return withBreadcrumbs(results.slice(0, maxResults), allNodes);
+  }
+
+  // Search nodes with the structured query language (see query.ts)
+  async queryNodes(
+    query: string,
+    options?: {
+      searchName?: boolean;
+      searchNote?: boolean;
+      caseSensitive?: boolean;
+      maxResults?: number;
+    }
+  ): Promise<(WorkflowyNode & { breadcrumb: string })[]> {
+    const { maxResults = 100, ...matchOptions } = options || {};
+
+    // Parse before fetching so a bad query never costs an export request
+    const ast = parseQuery(query);
+    const allNodes = await this.getAllNodes();
+    const matches = compileQuery(ast, allNodes, matchOptions);
+
+    return withBreadcrumbs(allNodes.filter(matches).slice(0, maxResults), allNodes);
+  }
+
+  // Tasks filtered by completion and due date, with completion rollups per parent
+  async listTasks(options: {
+    scopeId?: string;
+    status?: TaskStatus;
+    dueFrom?: string;
+    dueTo?: string;
+    overdue?: boolean;
+    hasDueDate?: boolean;
+    limit?: number;
+  }) {
+    // Parse the window before fetching so a bad date never costs an export request
+    const dueFrom = options.dueFrom ? parseDayArgument(options.dueFrom, "dueFrom") : undefined;
+    const dueTo = options.dueTo ? parseDayArgument(options.dueTo, "dueTo") : undefined;
+    const allNodes = await this.getAllNodes();
+    return listTasks(allNodes, { ...options, dueFrom, dueTo });
+  }
+
+  async listTags(options: { kind?: "tag" | "mention" | "all"; prefix?: string; scopeId?: string }) {
+    const allNodes = await this.getAllNodes();
+    const nodes = options.scopeId ? collectSubtree(allNodes, options.scopeId) : allNodes;
+    return listTags(nodes, options);
+  }
+
+  // Nodes carrying exactly this tag, not ones that merely start with it
+  async getTagged(tag: string, options?: { includeCompleted?: boolean; maxResults?: number }) {
+    const { includeCompleted = true, maxResults = 100 } = options || {};
+    const allNodes = await this.getAllNodes();
+    const tagged = nodesWithTag(allNodes, tag).filter((n) => includeCompleted || !isCompleted(n));
+    return {
+      tag,
+      total: tagged.length,
+      nodes: withBreadcrumbs(tagged.slice(0, maxResults), allNodes),
+    };
+  }
+
+  // Counts, depth, the widest and largest parts and the stale subtrees of the outline
+  async stats(options: StatsOptions) {
+    const allNodes = await this.getAllNodes();
+    return outlineStats(allNodes, options);
+  }
+
+  // Rename a tag on every node carrying it, or merge it into another tag.
+  // With dryRun only the planned edits are returned.
+  async renameTag(from: string, to: string, dryRun: boolean) {
+    const issues = Object.entries({ from, to })
+      .filter(([, tag]) => !isValidTag(tag))
+      .map(([field, tag]) => ({
+        field,
+        message: `must be "#" or "@" followed by letters, digits, "_" or "-" (got "${tag}")`,
+      }));
+    if (issues.length > 0) throw new ArgumentError(issues);
+    const allNodes = await this.getAllNodes();
+    const merge = to.toLowerCase() !== from.toLowerCase() && nodesWithTag(allNodes, to).length > 0;
+    const changes = planTagRename(allNodes, from, to);
+    if (dryRun) return { dryRun: true, from, to, merge, changes };
+
+    const operations: BatchOperation[] = changes.map((change) => ({
+      op: "update",
+      nodeId: change.id,
+      ...(change.name ? { name: change.name.after } : {}),
+      ...(change.note ? { note: change.note.after } : {}),
+    }));
+    const result = await runBatch(this, operations, { stopOnError: false });
+    return { dryRun: false, from, to, merge, changes, ...result };
+  }
+
+  // Reorder the children of a node with as few moves as possible.
+  // With dryRun only the new order and the planned moves are returned.
+  async sortChildren(parentId: string, options: SortOptions, dryRun: boolean) {
+    const allNodes = await this.getAllNodes();
+    if (!allNodes.some((n) => n.id === parentId)) {
+      throw new ArgumentError([{ field: "parentId", message: `${parentId} was not found` }]);
+    }
+    const children = buildChildrenMap(allNodes).get(parentId) || [];
+    const plan = planSort(children, sortedChildren(children, options));
+    const summary = {
+      parentId,
+      by: options.by,
+      descending: options.descending === true,
+      childCount: children.length,
+      moveCount: plan.moves.length,
+      ...plan,
+    };
+    if (dryRun) return { dryRun: true, ...summary };
+
+    const operations: BatchOperation[] = plan.moves.map((move) => ({
+      op: "move",
+      nodeId: move.nodeId,
+      parentId,
+      priority: move.priority,
+    }));
+    // Each priority assumes the moves before it were made
+    const result = await runBatch(this, operations, { stopOnError: true });
+    return { dryRun: false, ...summary, ...result };
+  }
+
+  // Diff the current outline against an earlier snapshot, chosen by ID or
+  // as the latest one taken at or before a given time
+  async changesSince(options: { since?: string | number; snapshotId?: string }) {
+    const current = await this.getAllNodes();
+
+    let baseline;
+    if (options.snapshotId) {
+      baseline = this.history.get(options.snapshotId);
+      if (!baseline) {
+        const available = this.history.list().map((s) => s.id);
+        throw new ArgumentError([
+          {
+            field: "snapshotId",
+            message: `${options.snapshotId} was not found; available snapshots: ${available.join(", ") || "none"}`,
+          },
+        ]);
+      }
+    } else {
+      const since = options.since !== undefined ? parseSinceTime(options.since) : 0;
+      baseline = this.history.atOrBefore(since);
+    }
+    if (!baseline) {
+      throw new Error("No earlier snapshot is available to compare against yet");
+    }
+
+    const changes = diffSnapshots(baseline.nodes, current);
+    return {
+      baseline: {
+        id: baseline.id,
+        takenAt: new Date(baseline.timestamp).toISOString(),
+        source: baseline.source,
+      },
+      current: {
+        fetchedAt: this.nodeCache.timestamp
+          ? new Date(this.nodeCache.timestamp).toISOString()
+          : null,
+        localChanges: this.nodeCache.localChanges,
+      },
+      changeCount: changes.length,
+      changes,
+      availableSnapshots: this.history.list().map((s) => ({
+        id: s.id,
+        takenAt: new Date(s.timestamp).toISOString(),
+        source: s.source,
+      })),
+    };
+  }
+
+  // Accept either a node ID or a path such as "Work > Projects > Q3 Launch"
+  async resolveNodeRef(ref: string): Promise<string> {
+    if (looksLikeNodeId(ref)) return ref;
+    const allNodes = await this.getAllNodes();
+    if (allNodes.some((n) => n.id === ref)) return ref;
+    try {
+      return resolvePath(ref, allNodes).id;
+    } catch (error) {
+      // A bare word matching no top-level node is passed through as-is, so
+      // target keys such as "inbox" keep working
+      if (error instanceof NodePathError && error.reason === "not_found" && !ref.includes(">")) {
+        return ref;
+      }
+      throw error;
+    }
   }
 
   // Get node with its children (uses cache for efficiency)
-  async getNodeWithChildren(nodeId: string, depth = 1): Promise<any> {
+  async getNodeWithChildren(nodeId: string, depth = 1): Promise<WorkflowyNodeTree> {
     const allNodes = await this.getAllNodes();
     const nodeMap = new Map(allNodes.map((n) => [n.id, n]));
 
     const node = nodeMap.get(nodeId);
     if (!node) {
-      throw new Error(`Node ${nodeId} not found`);
+      throw new ArgumentError([{ field: "nodeId", message: `${nodeId} was not found` }]);
     }
 
     // Clone the node to avoid modifying cache
-    const result = { ...node };
+    const result: WorkflowyNodeTree = { ...node };
 
     // Add children if depth > 0
     if (depth > 0) {
@@ -156,15 +539,18 @@ class WorkflowyClient {
     return result;
   }
 
-  async createNode(params: {
-    parentId?: string;
-    name: string;
-    note?: string;
-    priority?: number;
-    layoutMode?: string;
-  }) {
+  async createNode(
+    params: {
+      parentId?: string;
+      name: string;
+      note?: string;
+      priority?: number;
+      layoutMode?: string;
+    },
+    undoOf?: JournalEntry
+  ) {
     // Convert to API format (snake_case and nested data)
-    const apiParams: any = {
+    const apiParams: ApiNodeParams = {
       name: params.name,
     };
     if (params.parentId) apiParams.parent_id = params.parentId;
@@ -174,21 +560,85 @@ class WorkflowyClient {
       apiParams.data = { layoutMode: params.layoutMode };
     }
 
-    const response = await this.client.post("/nodes", apiParams);
-    this.invalidateCache();
-    return response.data;
+    const response = await this.backend.createNode(apiParams);
+    const id = response?.item_id;
+    if (id) {
+      const parentId = await this.cacheParentId(id, params.parentId);
+      if (parentId === undefined) {
+        this.invalidateCache();
+      } else {
+        this.applyToCache(null, (nodes) =>
+          cachePatch.insertNode(nodes, { ...params, parentId: parentId ?? undefined, id })
+        );
+      }
+      this.recordJournal(
+        {
+          operation: "create",
+          nodeId: id,
+          name: params.name,
+          params,
+          before: null,
+        },
+        undoOf
+      );
+    } else {
+      this.invalidateCache();
+    }
+    return response;
+  }
+
+  // Create a parsed outline under parentId, children wired to their new parents.
+  // Stops at the first failure and reports what was created so far.
+  async importOutline(
+    items: OutlineItem[],
+    parentId?: string,
+    priority?: number
+  ): Promise<{
+    created: { line: number; id: string; name: string; parentId: string | null }[];
+    error?: string;
+  }> {
+    const created: { line: number; id: string; name: string; parentId: string | null }[] = [];
+
+    // Default to appending after the parent's existing children so order is kept
+    const firstPriority: number = priority ?? ((await this.listNodes(parentId)).nodes?.length || 0);
+
+    const createLevel = async (
+      levelItems: OutlineItem[],
+      levelParentId: string | undefined,
+      firstPriority: number
+    ) => {
+      for (let i = 0; i < levelItems.length; i++) {
+        const item = levelItems[i];
+        const result = await this.createNode({
+          parentId: levelParentId,
+          name: item.name,
+          note: item.note,
+          priority: firstPriority + i,
+          layoutMode: item.layoutMode,
+        });
+        const id = result.item_id;
+        created.push({ line: item.line, id, name: item.name, parentId: levelParentId || null });
+        if (item.completed) {
+          await this.completeNode(id);
+        }
+        await createLevel(item.children, id, 0);
+      }
+    };
+
+    try {
+      await createLevel(items, parentId, firstPriority);
+    } catch (error: any) {
+      return { created, error: error.message };
+    }
+    return { created };
   }
 
   async getNode(nodeId: string) {
-    const response = await this.client.get(`/nodes/${nodeId}`);
-    return response.data;
+    return this.backend.getNode(nodeId);
   }
 
   async listNodes(parentId?: string) {
-    const response = await this.client.get("/nodes", {
-      params: parentId ? { parent_id: parentId } : {},
-    });
-    return response.data;
+    return this.backend.listNodes(parentId);
   }
 
   async updateNode(
@@ -198,10 +648,11 @@ class WorkflowyClient {
       note?: string;
       priority?: number;
       layoutMode?: string;
-    }
+    },
+    undoOf?: JournalEntry
   ) {
     // Convert to API format (snake_case and nested data)
-    const apiParams: any = {};
+    const apiParams: ApiNodeParams = {};
     if (params.name !== undefined) apiParams.name = params.name;
     if (params.note !== undefined) apiParams.note = params.note;
     if (params.priority !== undefined) apiParams.priority = params.priority;
@@ -209,342 +660,889 @@ class WorkflowyClient {
       apiParams.data = { layoutMode: params.layoutMode };
     }
 
-    const response = await this.client.post(`/nodes/${nodeId}`, apiParams);
-    this.invalidateCache();
-    return response.data;
+    const before = this.priorState(nodeId);
+    const response = await this.backend.updateNode(nodeId, apiParams);
+    this.applyToCache(nodeId, (nodes) => cachePatch.patchNode(nodes, nodeId, params));
+    this.recordJournal(
+      {
+        operation: "update",
+        nodeId,
+        name: params.name ?? before?.name ?? "",
+        params,
+        before,
+      },
+      undoOf
+    );
+    return response;
+  }
+
+  // The subtree is backed up to the local trash before it is deleted, so a
+  // node missing from the outline snapshot is never deleted
+  async deleteNode(nodeId: string, undoOf?: JournalEntry) {
+    let allNodes = await this.getAllNodes();
+    if (!allNodes.some((n) => n.id === nodeId)) {
+      allNodes = await this.getAllNodes(true);
+    }
+    if (!allNodes.some((n) => n.id === nodeId)) {
+      throw new ArgumentError([
+        {
+          field: "nodeId",
+          message: `${nodeId} is not in the outline snapshot, so it cannot be backed up before deletion. Check the ID, or retry once the cache has refreshed.`,
+        },
+      ]);
+    }
+
+    const before = this.priorState(nodeId)!;
+    const subtree = collectSubtree(allNodes, nodeId);
+    const response = await this.backend.deleteNode(nodeId);
+    const trashEntry = await this.trash.add({
+      nodeId,
+      name: before.name ?? "",
+      parentId: before.parentId ?? null,
+      parentBreadcrumb: breadcrumb(nodeId, new Map(allNodes.map((n) => [n.id, n]))),
+      priority: before.priority,
+      nodes: subtree,
+    });
+    this.applyToCache(null, (nodes) => cachePatch.removeSubtree(nodes, nodeId));
+    this.recordJournal(
+      {
+        operation: "delete",
+        nodeId,
+        name: before.name ?? "",
+        before,
+        subtree,
+        trashId: trashEntry.id,
+      },
+      undoOf
+    );
+    return { ...response, trashId: trashEntry.id, backedUpNodes: subtree.length };
+  }
+
+  // Deleted subtrees in the local trash, most recent first
+  listTrash() {
+    return this.trash.list().map((entry) => ({
+      id: entry.id,
+      deletedAt: new Date(entry.deletedAt).toISOString(),
+      nodeId: entry.nodeId,
+      name: entry.name,
+      parentId: entry.parentId,
+      parentBreadcrumb: entry.parentBreadcrumb,
+      nodeCount: entry.nodes.length,
+    }));
+  }
+
+  // Recreate a trashed subtree under its original parent or a chosen one
+  async restoreDeleted(trashId: string, parentId?: string, priority?: number) {
+    const entry = this.trash.get(trashId);
+    if (!entry) {
+      throw new ArgumentError([{ field: "trashId", message: `${trashId} was not found` }]);
+    }
+    const targetParentId = parentId ?? entry.parentId ?? undefined;
+    // Restoring reverses the delete, so its journal entry can no longer be undone
+    const deletion = this.journal.forTrash(trashId);
+    const idMap = await this.createTree(
+      entry.nodes,
+      entry.nodeId,
+      targetParentId,
+      parentId ? priority : (priority ?? entry.priority),
+      { undoOf: deletion && !deletion.undoneBy ? deletion : undefined }
+    );
+    await this.trash.remove(trashId);
+    return {
+      restored: trashId,
+      parentId: targetParentId ?? null,
+      newRootId: idMap[entry.nodeId],
+      nodeCount: Object.keys(idMap).length,
+      idMap,
+    };
+  }
+
+  // Duplicate a subtree from the cached outline under another parent, in this
+  // account or another
+  async copySubtree(
+    nodeId: string,
+    parentId?: string,
+    options: { priority?: number; resetCompletion?: boolean; target?: WorkflowyClient } = {}
+  ) {
+    let allNodes = await this.getAllNodes();
+    if (!allNodes.some((n) => n.id === nodeId)) {
+      allNodes = await this.getAllNodes(true);
+    }
+    if (!allNodes.some((n) => n.id === nodeId)) {
+      throw new ArgumentError([
+        {
+          field: "nodeId",
+          message: `${nodeId} is not in the outline snapshot, so its subtree cannot be copied. Check the ID, or retry once the cache has refreshed.`,
+        },
+      ]);
+    }
+    // Collected up front, so copying a node into its own subtree stops at the original
+    const subtree = collectSubtree(allNodes, nodeId);
+    // The copy may be created in another account's outline
+    const target = options.target ?? this;
+    const idMap = await target.createTree(subtree, nodeId, parentId, options.priority, {
+      resetCompletion: options.resetCompletion,
+    });
+    return {
+      copied: nodeId,
+      parentId: parentId ?? null,
+      newRootId: idMap[nodeId],
+      nodeCount: Object.keys(idMap).length,
+      idMap,
+    };
+  }
+
+  async listTemplates() {
+    return findTemplates(await this.getAllNodes());
+  }
+
+  // A template by node ID, name or path
+  async findTemplate(ref: string): Promise<TemplateSummary> {
+    const templates = await this.listTemplates();
+    const byId = templates.find((t) => t.id === ref);
+    if (byId) return byId;
+    const byName = templates.filter((t) => t.name.toLowerCase() === ref.trim().toLowerCase());
+    if (byName.length > 1) {
+      throw new ArgumentError([
+        {
+          field: "template",
+          message: `"${ref}" is ambiguous; use one of these IDs: ${byName.map((t) => `${t.id} (${t.breadcrumb || "top level"})`).join(", ")}`,
+        },
+      ]);
+    }
+    if (byName.length === 1) return byName[0];
+    const nodeId = await this.resolveNodeRef(ref);
+    const byPath = templates.find((t) => t.id === nodeId);
+    if (!byPath) {
+      throw new ArgumentError([
+        {
+          field: "template",
+          message: `"${ref}" is not a template. Templates are nodes with #template in their name; use workflowy_list_templates to see them.`,
+        },
+      ]);
+    }
+    return byPath;
   }
 
-  async deleteNode(nodeId: string) {
-    const response = await this.client.delete(`/nodes/${nodeId}`);
-    this.invalidateCache();
-    return response.data;
+  // Create a copy of a template under parentId with its placeholders filled in
+  async instantiateTemplate(
+    ref: string,
+    parentId?: string,
+    variables: Record<string, unknown> = {},
+    priority?: number
+  ) {
+    const supplied: Record<string, string> = {};
+    for (const [key, value] of Object.entries(variables)) {
+      if (value !== null && typeof value === "object") {
+        throw new ArgumentError([
+          { field: `variables.${key}`, message: "must be a string, number or boolean" },
+        ]);
+      }
+      supplied[key] = String(value);
+    }
+    const template = await this.findTemplate(ref);
+    const subtree = collectSubtree(await this.getAllNodes(), template.id);
+    const rendered = renderTemplate(subtree, template.id, supplied);
+    const idMap = await this.createTree(rendered, template.id, parentId, priority, {
+      resetCompletion: true,
+    });
+    return {
+      template: { id: template.id, name: template.name },
+      parentId: parentId ?? null,
+      newRootId: idMap[template.id],
+      name: rendered.find((n) => n.id === template.id)?.name,
+      nodeCount: Object.keys(idMap).length,
+      idMap,
+    };
   }
 
-  async moveNode(nodeId: string, parentId: string, priority?: number) {
-    const apiParams: any = {
+  async moveNode(nodeId: string, parentId: string, priority?: number, undoOf?: JournalEntry) {
+    const apiParams: { parent_id: string; priority?: number } = {
       parent_id: parentId,
     };
     if (priority !== undefined) apiParams.priority = priority;
 
-    const response = await this.client.post(`/nodes/${nodeId}/move`, apiParams);
-    this.invalidateCache();
-    return response.data;
+    const before = this.priorState(nodeId);
+    const response = await this.backend.moveNode(nodeId, apiParams);
+    const cacheParentId = await this.cacheParentId(nodeId, parentId);
+    if (cacheParentId === undefined) {
+      this.invalidateCache();
+    } else {
+      this.applyToCache(nodeId, (nodes) =>
+        cachePatch.moveNode(nodes, nodeId, cacheParentId, priority)
+      );
+    }
+    this.recordJournal(
+      {
+        operation: "move",
+        nodeId,
+        name: before?.name ?? "",
+        params: { parentId, priority },
+        before,
+      },
+      undoOf
+    );
+    return response;
+  }
+
+  async completeNode(nodeId: string, undoOf?: JournalEntry) {
+    const before = this.priorState(nodeId);
+    const response = await this.backend.completeNode(nodeId);
+    this.applyToCache(nodeId, (nodes) => cachePatch.setCompleted(nodes, nodeId, true));
+    this.recordJournal({ operation: "complete", nodeId, name: before?.name ?? "", before }, undoOf);
+    return response;
+  }
+
+  async uncompleteNode(nodeId: string, undoOf?: JournalEntry) {
+    const before = this.priorState(nodeId);
+    const response = await this.backend.uncompleteNode(nodeId);
+    this.applyToCache(nodeId, (nodes) => cachePatch.setCompleted(nodes, nodeId, false));
+    this.recordJournal(
+      { operation: "uncomplete", nodeId, name: before?.name ?? "", before },
+      undoOf
+    );
+    return response;
+  }
+
+  // Recreate a subtree from flat node data under parentId, keeping sibling
+  // order, notes, layout modes and (unless reset) completion. Returns the
+  // old-to-new ID map. With undoOf, every creation is journaled as part of
+  // undoing that entry.
+  async createTree(
+    sourceNodes: FlatNode[],
+    rootId: string,
+    parentId?: string,
+    priority?: number,
+    options: { resetCompletion?: boolean; undoOf?: JournalEntry } = {}
+  ): Promise<Record<string, string>> {
+    const children = buildChildrenMap(sourceNodes);
+    const root = sourceNodes.find((n) => n.id === rootId);
+    if (!root) throw new Error(`Node ${rootId} not found`);
+    const idMap: Record<string, string> = {};
+
+    const create = async (
+      node: FlatNode,
+      newParentId: string | undefined,
+      newPriority?: number
+    ) => {
+      const result = await this.createNode(
+        {
+          parentId: newParentId,
+          name: node.name || "",
+          note: node.note || undefined,
+          priority: newPriority,
+          layoutMode: node.data?.layoutMode,
+        },
+        options.undoOf
+      );
+      const newId = result.item_id;
+      idMap[node.id] = newId;
+      if (isCompleted(node) && !options.resetCompletion) {
+        await this.completeNode(newId, options.undoOf);
+      }
+      const kids = children.get(node.id) || [];
+      for (let i = 0; i < kids.length; i++) {
+        await create(kids[i], newId, i);
+      }
+    };
+
+    await create(root, parentId, priority);
+    return idMap;
+  }
+
+  // Journal of mutations, most recent first
+  getHistory(limit = 20) {
+    return this.journal.recent(limit).map((entry) => ({
+      id: entry.id,
+      at: new Date(entry.timestamp).toISOString(),
+      operation: entry.operation,
+      nodeId: entry.nodeId,
+      summary: describeEntry(entry),
+      ...(entry.undoOf ? { undoOf: entry.undoOf } : {}),
+      ...(entry.undoneBy ? { undoneBy: entry.undoneBy } : {}),
+      undoable: undoBlocker(entry) === null,
+    }));
   }
 
-  async completeNode(nodeId: string) {
-    const response = await this.client.post(`/nodes/${nodeId}/complete`);
-    this.invalidateCache();
-    return response.data;
+  // The journal entry an undo would reverse (by default the latest undoable one)
+  undoTarget(entryId?: string): JournalEntry {
+    const entry = entryId ? this.journal.get(entryId) : this.journal.latestUndoable();
+    if (!entry) {
+      if (entryId) {
+        throw new ArgumentError([{ field: "entryId", message: `${entryId} was not found` }]);
+      }
+      throw new Error("Nothing to undo");
+    }
+    const blocker = undoBlocker(entry);
+    if (blocker) {
+      throw new Error(`Cannot undo ${entry.id}: ${blocker}`);
+    }
+    return entry;
   }
 
-  async uncompleteNode(nodeId: string) {
-    const response = await this.client.post(`/nodes/${nodeId}/uncomplete`);
-    this.invalidateCache();
-    return response.data;
+  // Apply the inverse of a journal entry (by default the latest undoable one).
+  // The inverse operations are journaled too, so an undo can itself be undone.
+  async undo(entryId?: string) {
+    const entry = this.undoTarget(entryId);
+    const before = entry.before;
+    switch (entry.operation) {
+      case "create":
+        await this.deleteNode(entry.nodeId, entry);
+        return { undone: describeEntry(entry) };
+      case "update": {
+        const restore: Parameters<WorkflowyClient["updateNode"]>[1] = {};
+        const changed = entry.params || {};
+        if ("name" in changed) restore.name = before!.name ?? "";
+        if ("note" in changed) restore.note = before!.note ?? "";
+        if ("priority" in changed && before!.priority !== undefined)
+          restore.priority = before!.priority;
+        if ("layoutMode" in changed) restore.layoutMode = before!.layoutMode || "bullets";
+        await this.updateNode(entry.nodeId, restore, entry);
+        return { undone: describeEntry(entry), restored: restore };
+      }
+      case "move": {
+        const parentId = before!.parentId || "None";
+        await this.moveNode(entry.nodeId, parentId, before!.priority, entry);
+        return {
+          undone: describeEntry(entry),
+          restored: { parentId, priority: before!.priority },
+        };
+      }
+      case "complete":
+        await this.uncompleteNode(entry.nodeId, entry);
+        return { undone: describeEntry(entry) };
+      case "uncomplete":
+        await this.completeNode(entry.nodeId, entry);
+        return { undone: describeEntry(entry) };
+      case "delete": {
+        const idMap = await this.createTree(
+          entry.subtree!,
+          entry.nodeId,
+          before!.parentId || undefined,
+          before!.priority,
+          { undoOf: entry }
+        );
+        // The subtree is back, so its trash entry must not restore it twice
+        if (entry.trashId) await this.trash.remove(entry.trashId);
+        return {
+          undone: describeEntry(entry),
+          restoredRootId: idMap[entry.nodeId],
+          note: "Deleted nodes are recreated with new IDs",
+          idMap,
+        };
+      }
+    }
   }
 
   async exportNodes() {
-    const response = await this.client.get("/nodes-export");
-    return response.data;
+    return this.backend.exportNodes();
   }
 
   async listTargets() {
-    const response = await this.client.get("/targets");
-    return response.data;
+    return this.backend.listTargets();
   }
 }
 
-// Create MCP server
-const server = new Server(
-  {
-    name: "workflowy-mcp-server",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
+// Accounts from WORKFLOWY_API_KEY and WORKFLOWY_API_KEY_<NAME>, each with
+// its own client and cache
+let accountConfig: ReturnType<typeof parseAccounts>;
+try {
+  accountConfig = parseAccounts(process.env);
+} catch (error: any) {
+  console.error(`Error: ${error.message}`);
+  process.exit(1);
+}
+const accounts = new Map(
+  accountConfig.accounts.map((account) => [
+    account.name,
+    new WorkflowyClient(account.apiKey, createBackend(account.apiKey, process.env)),
+  ])
+);
+console.error(
+  `[Accounts] ${[...accounts.keys()].join(", ")} (default: ${accountConfig.defaultAccount})`
 );
 
-// Get API key from environment
-const apiKey = process.env.WORKFLOWY_API_KEY;
-if (!apiKey) {
-  console.error("Error: WORKFLOWY_API_KEY environment variable is required");
+// The default account, which resources and prompts read from
+const workflowy = accounts.get(accountConfig.defaultAccount)!;
+
+// Account names are matched exactly, as the account and targetAccount enums
+// list them (lowercase)
+function clientFor(account: unknown): WorkflowyClient {
+  if (account === undefined || account === null || account === "") return workflowy;
+  const client = typeof account === "string" ? accounts.get(account) : undefined;
+  if (!client) {
+    throw new Error(
+      `Unknown account "${account}". Configured accounts: ${[...accounts.keys()].join(", ")}`
+    );
+  }
+  return client;
+}
+
+// Server mode from WORKFLOWY_MODE or --mode=/--read-only/--confirm
+let serverMode: ReturnType<typeof parseServerMode>;
+try {
+  serverMode = parseServerMode(process.argv.slice(2), process.env);
+} catch (error: any) {
+  console.error(`Error: ${error.message}`);
   process.exit(1);
 }
+const confirmationTokens = new ConfirmationTokens();
+console.error(`[Mode] Running in ${serverMode} mode`);
+
+// A tool's input schema plus the arguments the server adds to it: account on
+// every tool but workflowy_list_accounts, targetAccount on
+// workflowy_copy_subtree, and confirmationToken in confirm mode
+function toolInput(tool: ToolDefinition): ObjectSchema<any, any> {
+  let input: ObjectSchema<any, any> = tool.input;
+  if (tool.name !== "workflowy_list_accounts") {
+    input = input.extend({
+      account: enumOf([...accounts.keys()], {
+        description: `Workflowy account to use (optional, defaults to '${accountConfig.defaultAccount}')`,
+      }),
+    });
+  }
+  if (tool.name === "workflowy_copy_subtree") {
+    input = input.extend({
+      targetAccount: enumOf([...accounts.keys()], {
+        description:
+          "Account to create the copy in, when copying between accounts (optional, defaults to the source account). parentId is then looked up in that account",
+      }),
+    });
+  }
+  if (serverMode === "confirm" && CONFIRM_TOOLS.has(tool.name)) {
+    input = input.extend({
+      confirmationToken: string({
+        description: "One-time token from the preview of this exact call",
+      }),
+    });
+  }
+  return input;
+}
+
+// List available tools. Read-only mode hides mutating tools.
+async function listTools() {
+  const tools =
+    serverMode === "readonly" ? TOOLS.filter((tool) => !MUTATING_TOOLS.has(tool.name)) : TOOLS;
+  return {
+    tools: tools.map((tool) => ({
+      name: tool.name,
+      description:
+        serverMode === "confirm" && CONFIRM_TOOLS.has(tool.name)
+          ? `${tool.description} ${DRY_RUN_TOOLS.has(tool.name) ? "With dryRun false, it requires" : "Requires"} confirmation: the first call returns a preview and a confirmationToken; call again with the same arguments plus the token to apply it.`
+          : tool.description,
+      inputSchema: toolInput(tool).toJsonSchema() as Tool["inputSchema"],
+    })),
+  };
+}
+
+// Describe what a destructive or bulk tool call would do, for confirm mode
+async function previewToolCall(
+  workflowy: WorkflowyClient,
+  name: string,
+  args: Record<string, unknown>
+) {
+  const allNodes = await workflowy.getAllNodes();
+  const nodeMap = new Map(allNodes.map((n) => [n.id, n]));
+  const describe = (nodeId: string | undefined) => {
+    if (!nodeId) return { id: null, name: "(top level)" };
+    const node = nodeMap.get(nodeId);
+    if (!node) return { id: nodeId, name: "(not in cached outline)" };
+    return { id: nodeId, name: node.name, breadcrumb: breadcrumb(nodeId, nodeMap) };
+  };
+
+  switch (name) {
+    case "workflowy_delete_node": {
+      const { nodeId } = args as ToolArguments<"workflowy_delete_node">;
+      const subtree = nodeMap.has(nodeId) ? collectSubtree(allNodes, nodeId) : [];
+      return {
+        action: "delete",
+        node: describe(nodeId),
+        descendantCount: Math.max(0, subtree.length - 1),
+      };
+    }
+    case "workflowy_move_node": {
+      const { nodeId, parentId, priority } = args as ToolArguments<"workflowy_move_node">;
+      return {
+        action: "move",
+        node: describe(nodeId),
+        from: describe(nodeMap.get(nodeId)?.parent_id || undefined),
+        to: describe(parentId),
+        priority: priority ?? null,
+      };
+    }
+    case "workflowy_copy_subtree": {
+      const { nodeId, parentId, resetCompletion } = args as ToolArguments<"workflowy_copy_subtree">;
+      const { targetAccount } = args as { targetAccount?: string };
+      const subtree = nodeMap.has(nodeId) ? collectSubtree(allNodes, nodeId) : [];
+      return {
+        action: "copy",
+        node: describe(nodeId),
+        to: describe(parentId),
+        nodeCount: subtree.length,
+        resetCompletion: resetCompletion === true,
+        ...(targetAccount ? { targetAccount } : {}),
+      };
+    }
+    case "workflowy_instantiate_template": {
+      const { template: ref, parentId } = args as ToolArguments<"workflowy_instantiate_template">;
+      const template = await workflowy.findTemplate(ref);
+      return {
+        action: "instantiate",
+        template: describe(template.id),
+        to: describe(parentId),
+        nodeCount: template.nodeCount,
+        variables: template.variables,
+      };
+    }
+    case "workflowy_import_outline": {
+      const { content, format, parentId } = args as ToolArguments<"workflowy_import_outline">;
+      const items = parseOutline(content, format);
+      let count = 0;
+      const countItems = (list: OutlineItem[]) => {
+        for (const item of list) {
+          count++;
+          countItems(item.children);
+        }
+      };
+      countItems(items);
+      return {
+        action: "import",
+        parent: describe(parentId),
+        nodeCount: count,
+        topLevel: items.map((item) => item.name),
+      };
+    }
+    case "workflowy_undo": {
+      const { entryId } = args as ToolArguments<"workflowy_undo">;
+      const entry = workflowy.undoTarget(entryId);
+      const preview = { action: "undo", entryId: entry.id, undoes: describeEntry(entry) };
+      switch (entry.operation) {
+        case "create":
+          return { ...preview, effect: "delete", node: describe(entry.nodeId) };
+        case "delete":
+          return {
+            ...preview,
+            effect: "recreate",
+            nodeCount: entry.subtree!.length,
+            to: describe(entry.before!.parentId || undefined),
+          };
+        case "move":
+          return {
+            ...preview,
+            effect: "move",
+            node: describe(entry.nodeId),
+            to: describe(entry.before!.parentId || undefined),
+          };
+        case "update":
+          return {
+            ...preview,
+            effect: "restore",
+            node: describe(entry.nodeId),
+            fields: Object.keys(entry.params || {}),
+          };
+        default:
+          return {
+            ...preview,
+            effect: entry.operation === "complete" ? "uncomplete" : "complete",
+            node: describe(entry.nodeId),
+          };
+      }
+    }
+    case "workflowy_sort_children": {
+      const { parentId, by, descending, order } = args as ToolArguments<"workflowy_sort_children">;
+      const { dryRun: _dryRun, ...plan } = await workflowy.sortChildren(
+        parentId,
+        { by, descending, order },
+        true
+      );
+      return { action: "sort_children", parent: describe(parentId), ...plan };
+    }
+    case "workflowy_rename_tag": {
+      const { from, to } = args as ToolArguments<"workflowy_rename_tag">;
+      const plan = await workflowy.renameTag(from, to, true);
+      return {
+        action: "rename_tag",
+        from: plan.from,
+        to: plan.to,
+        merge: plan.merge,
+        nodeCount: plan.changes.length,
+        changes: plan.changes,
+      };
+    }
+    case "workflowy_batch": {
+      // validateBatch has checked each operation before the preview
+      const operations = (args as ToolArguments<"workflowy_batch">).operations as BatchOperation[];
+      // "$ref" placeholders name a node the batch has not created yet
+      const describeRef = (ref: string) => (ref.startsWith("$") ? ref : describe(ref));
+      return {
+        action: "batch",
+        operationCount: operations.length,
+        operations: operations.map((operation) => ({
+          op: operation.op,
+          ...("ref" in operation && operation.ref ? { ref: operation.ref } : {}),
+          ...("name" in operation && operation.name !== undefined ? { name: operation.name } : {}),
+          ...("nodeId" in operation ? { node: describeRef(operation.nodeId) } : {}),
+          ...("parentId" in operation && operation.parentId
+            ? { parent: describeRef(operation.parentId) }
+            : {}),
+        })),
+      };
+    }
+    default:
+      return { action: name };
+  }
+}
 
-const workflowy = new WorkflowyClient(apiKey);
+// Resources: the root listing, shortcuts from /targets, and any node by ID
+async function listResources() {
+  const resources = [
+    {
+      uri: ROOT_URI,
+      name: "Workflowy outline",
+      description: "Top-level nodes of the outline",
+      mimeType: "text/markdown",
+    },
+  ];
+  try {
+    const { targets = [] } = await workflowy.listTargets();
+    for (const target of targets) {
+      if (!target?.key) continue;
+      resources.push({
+        uri: targetUri(target.key),
+        name: target.name || target.key,
+        description: `Workflowy ${target.type || "shortcut"}: ${target.name || target.key}`,
+        mimeType: "text/markdown",
+      });
+    }
+  } catch (error: any) {
+    console.error(`[Resources] Could not list targets: ${error.message}`);
+  }
+  return { resources };
+}
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+async function listResourceTemplates() {
   return {
-    tools: [
+    resourceTemplates: [
       {
-        name: "workflowy_create_node",
-        description:
-          "Create a new node (bullet point) in Workflowy. Can specify parent node, content, notes, and display mode.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            name: {
-              type: "string",
-              description: "The main text content of the node (supports markdown)",
-            },
-            parentId: {
-              type: "string",
-              description: "ID of the parent node (optional, defaults to root)",
-            },
-            note: {
-              type: "string",
-              description: "Optional extended description/notes for the node",
-            },
-            priority: {
-              type: "number",
-              description: "Sort order among siblings (optional)",
-            },
-            layoutMode: {
-              type: "string",
-              enum: ["bullets", "todo", "h1", "h2", "h3", "code-block", "quote-block"],
-              description: "Display style for the node (optional)",
-            },
-          },
-          required: ["name"],
-        },
-      },
-      {
-        name: "workflowy_get_node",
-        description: "Retrieve details about a specific node by its ID.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            nodeId: {
-              type: "string",
-              description: "The unique ID of the node to retrieve",
-            },
-          },
-          required: ["nodeId"],
-        },
-      },
-      {
-        name: "workflowy_list_nodes",
-        description:
-          "List child nodes under a parent node. If no parentId is provided, lists root-level nodes.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            parentId: {
-              type: "string",
-              description: "ID of the parent node (optional, defaults to root)",
-            },
-          },
-        },
-      },
-      {
-        name: "workflowy_search",
-        description:
-          "Search for nodes by text content across your ENTIRE Workflowy outline (all nodes including deeply nested children). Returns matching nodes with their IDs and parent relationships. Use this to find nodes anywhere in your hierarchy.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description: "Text to search for in node names and notes",
-            },
-            searchName: {
-              type: "boolean",
-              description: "Search in node names (default: true)",
-            },
-            searchNote: {
-              type: "boolean",
-              description: "Search in node notes (default: true)",
-            },
-            caseSensitive: {
-              type: "boolean",
-              description: "Case-sensitive search (default: false)",
-            },
-            maxResults: {
-              type: "number",
-              description: "Maximum number of results to return (default: 100)",
-            },
-          },
-          required: ["query"],
-        },
-      },
-      {
-        name: "workflowy_get_node_hierarchy",
-        description:
-          "Get a node with its children and descendants to see the full context and structure around it. Useful after finding a node via search to understand where it lives in your outline.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            nodeId: {
-              type: "string",
-              description: "ID of the node to retrieve with its hierarchy",
-            },
-            depth: {
-              type: "number",
-              description:
-                "How many levels of children to include (0 = just the node, 1 = node + direct children, 2 = node + children + grandchildren, etc.). Default: 1, Max: 5",
-              minimum: 0,
-              maximum: 5,
-            },
-          },
-          required: ["nodeId"],
-        },
-      },
-      {
-        name: "workflowy_update_node",
-        description:
-          "Update an existing node's content, notes, priority, or layout mode.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            nodeId: {
-              type: "string",
-              description: "The unique ID of the node to update",
-            },
-            name: {
-              type: "string",
-              description: "Updated text content (optional)",
-            },
-            note: {
-              type: "string",
-              description: "Updated notes (optional)",
-            },
-            priority: {
-              type: "number",
-              description: "Updated sort order (optional)",
-            },
-            layoutMode: {
-              type: "string",
-              enum: ["bullets", "todo", "h1", "h2", "h3", "code-block", "quote-block"],
-              description: "Updated display style (optional)",
-            },
-          },
-          required: ["nodeId"],
-        },
-      },
-      {
-        name: "workflowy_delete_node",
-        description: "Permanently delete a node and all its children.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            nodeId: {
-              type: "string",
-              description: "The unique ID of the node to delete",
-            },
-          },
-          required: ["nodeId"],
-        },
-      },
-      {
-        name: "workflowy_move_node",
-        description:
-          "Move a node to a different location in the hierarchy by changing its parent.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            nodeId: {
-              type: "string",
-              description: "The unique ID of the node to move",
-            },
-            parentId: {
-              type: "string",
-              description: "ID of the new parent node",
-            },
-            priority: {
-              type: "number",
-              description: "Sort order in the new location (optional)",
-            },
-          },
-          required: ["nodeId", "parentId"],
-        },
-      },
-      {
-        name: "workflowy_complete_node",
-        description: "Mark a node as complete (for todo-style nodes).",
-        inputSchema: {
-          type: "object",
-          properties: {
-            nodeId: {
-              type: "string",
-              description: "The unique ID of the node to mark complete",
-            },
-          },
-          required: ["nodeId"],
-        },
-      },
-      {
-        name: "workflowy_uncomplete_node",
-        description: "Mark a node as incomplete (for todo-style nodes).",
-        inputSchema: {
-          type: "object",
-          properties: {
-            nodeId: {
-              type: "string",
-              description: "The unique ID of the node to mark incomplete",
-            },
-          },
-          required: ["nodeId"],
-        },
-      },
-      {
-        name: "workflowy_export",
-        description:
-          "Export your entire Workflowy outline structure. Limited to 1 request per minute.",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
-      },
-      {
-        name: "workflowy_list_targets",
-        description: "List available shortcuts and system locations in Workflowy.",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
+        uriTemplate: NODE_URI_TEMPLATE,
+        name: "Workflowy node",
+        description: "A node with its note, path, children and grandchildren",
+        mimeType: "text/markdown",
       },
     ],
   };
-});
+}
+
+async function readResource(request: ReadResourceRequest) {
+  const { uri } = request.params;
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  let text: string;
+  if (ref.kind === "root") {
+    text = renderRootResource(await workflowy.getAllNodes());
+  } else if (ref.kind === "node") {
+    text = renderNodeResource(await workflowy.getAllNodes(), ref.id);
+  } else {
+    // Targets are resolved by the API, so list their children directly
+    const { nodes = [] } = await workflowy.listNodes(ref.key);
+    text = `# ${ref.key}\n\n${nodes.length > 0 ? renderListing(nodes, nodes, 1) : "(empty)"}\n`;
+  }
+  return { contents: [{ uri, mimeType: "text/markdown", text }] };
+}
+
+// Resource subscriptions of one session: subscribed URIs with the signature
+// of what they last showed. While anything is subscribed the outline is
+// re-fetched once per cache TTL, and subscribers are notified when their part
+// of it changes. Returns a function that stops watching.
+function handleSubscriptions(server: Server): () => void {
+  const subscriptions = new Map<string, string | null>();
+  let subscriptionPoll: NodeJS.Timeout | null = null;
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const ref = parseResourceUri(uri);
+    if (!ref) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    subscriptions.set(uri, resourceSignature(await workflowy.getAllNodes(), ref));
+    if (!subscriptionPoll) {
+      subscriptionPoll = setInterval(() => {
+        workflowy.getAllNodes().catch((error) => {
+          console.error(`[Resources] Refresh for subscriptions failed: ${error.message}`);
+        });
+      }, workflowy.cacheTtl);
+      subscriptionPoll.unref();
+    }
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    if (subscriptions.size === 0 && subscriptionPoll) {
+      clearInterval(subscriptionPoll);
+      subscriptionPoll = null;
+    }
+    return {};
+  });
+
+  const stopListening = workflowy.onNodesChanged((nodes) => {
+    for (const [uri, previous] of subscriptions) {
+      const ref = parseResourceUri(uri)!;
+      const current = resourceSignature(nodes, ref);
+      if (current === previous) continue;
+      subscriptions.set(uri, current);
+      server.sendResourceUpdated({ uri }).catch((error) => {
+        console.error(`[Resources] Could not notify ${uri}: ${error.message}`);
+      });
+    }
+  });
+
+  return () => {
+    stopListening();
+    if (subscriptionPoll) clearInterval(subscriptionPoll);
+    subscriptionPoll = null;
+  };
+}
+
+// Prompts with the relevant part of the outline already embedded
+async function listPrompts() {
+  return { prompts: PROMPTS };
+}
+
+async function getPrompt(request: GetPromptRequest) {
+  const { name, arguments: args = {} } = request.params;
+  if (!PROMPTS.some((prompt) => prompt.name === name)) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  const scopeId = args.nodeId ? await workflowy.resolveNodeRef(args.nodeId) : null;
+  return buildPrompt(name, args, await workflowy.getAllNodes(), scopeId);
+}
+
+// Replace path-style nodeId/parentId arguments with the node IDs they name.
+// A parentId in another account (targetAccount) is resolved there.
+async function resolveNodeArguments(
+  workflowy: WorkflowyClient,
+  args: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const resolved = { ...args };
+  for (const key of ["nodeId", "parentId"]) {
+    const value = resolved[key];
+    if (typeof value === "string" && value.length > 0) {
+      const client =
+        key === "parentId" && resolved.targetAccount
+          ? clientFor(resolved.targetAccount)
+          : workflowy;
+      resolved[key] = await client.resolveNodeRef(value);
+    }
+  }
+  return resolved;
+}
+
+// A read tool's list result, paged and cut to the caller's budget
+function shapedResult<T extends object>(shape: ListShape<T>): CallToolResult {
+  return { content: [{ type: "text", text: shapeList(shape) }] };
+}
+
+// Nodes from the API carry no breadcrumb; add one only when it will be shown
+function needsBreadcrumbs(options: ShapeOptions): boolean {
+  return options.output === "compact" || options.fields?.includes("breadcrumb") === true;
+}
 
 // Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function callTool(request: CallToolRequest): Promise<CallToolResult> {
   try {
-    const { name, arguments: args } = request.params;
+    const { name } = request.params;
+    const tool = findTool(name);
+    if (!tool) throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
 
-    switch (name) {
-      case "workflowy_create_node": {
-        const result = await workflowy.createNode(args as any);
+    if (serverMode === "readonly" && MUTATING_TOOLS.has(name)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${name} is not available: the server is running in read-only mode`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Check every argument before anything reaches the API
+    const input = validate(name, toolInput(tool), request.params.arguments ?? {});
+
+    // Calls act on the default account unless the arguments name another
+    const workflowy = clientFor(input.account);
+    const args = await resolveNodeArguments(workflowy, input);
+
+    // Reject a malformed batch before previewing or running any of it
+    if (name === "workflowy_batch") {
+      const problems = validateBatch(args.operations);
+      if (problems.length > 0) {
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(result, null, 2),
+              text: `Invalid batch:\n${problems.join("\n")}`,
             },
           ],
+          isError: true,
         };
       }
+    }
 
-      case "workflowy_get_node": {
-        const { nodeId } = args as { nodeId: string };
-        const result = await workflowy.getNode(nodeId);
+    // Bind a confirmed undo to the entry it reverses now, so that a token
+    // cannot undo an operation made after the preview
+    if (serverMode === "confirm" && name === "workflowy_undo") {
+      const { entryId } = args as ToolArguments<"workflowy_undo">;
+      args.entryId = workflowy.undoTarget(entryId).id;
+    }
+
+    if (serverMode === "confirm" && needsConfirmation(name, args)) {
+      const token = args.confirmationToken;
+      if (typeof token !== "string" || token.length === 0) {
+        const preview = await previewToolCall(workflowy, name, args);
+        const confirmationToken = confirmationTokens.issue(name, args);
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify(
+                {
+                  confirmationRequired: true,
+                  preview,
+                  confirmationToken,
+                  instructions: `Nothing has changed yet. Call ${name} again with the same arguments and this confirmationToken to apply it.`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+      const problem = confirmationTokens.consume(token, name, args);
+      if (problem) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Not confirmed: ${problem}. Call ${name} without a token to get a new preview.`,
             },
           ],
+          isError: true,
         };
       }
+    }
+    // The account and token only route the call, so they never reach the journal
+    delete args.account;
+    delete args.confirmationToken;
 
-      case "workflowy_list_nodes": {
-        const { parentId } = args as { parentId?: string };
-        const result = await workflowy.listNodes(parentId);
+    switch (name) {
+      case "workflowy_create_node": {
+        const result = await workflowy.createNode(args as ToolArguments<"workflowy_create_node">);
         return {
           content: [
             {
@@ -555,41 +1553,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case "workflowy_search": {
-        const { query, searchName, searchNote, caseSensitive, maxResults } = args as {
-          query: string;
-          searchName?: boolean;
-          searchNote?: boolean;
-          caseSensitive?: boolean;
-          maxResults?: number;
-        };
-        const results = await workflowy.searchNodes(query, {
-          searchName,
-          searchNote,
-          caseSensitive,
-          maxResults,
-        });
+      case "workflowy_import_outline": {
+        const { content, format, parentId, priority } =
+          args as ToolArguments<"workflowy_import_outline">;
+        let items: OutlineItem[];
+        try {
+          items = parseOutline(content, format);
+        } catch (error: any) {
+          return {
+            content: [{ type: "text", text: error.message }],
+            isError: true,
+          };
+        }
+        const result = await workflowy.importOutline(items, parentId, priority);
         return {
           content: [
             {
               type: "text",
               text: JSON.stringify(
                 {
-                  query,
-                  resultCount: results.length,
-                  results,
+                  parentId: parentId || null,
+                  createdCount: result.created.length,
+                  ...result,
                 },
                 null,
                 2
               ),
             },
           ],
+          isError: result.error ? true : undefined,
         };
       }
 
-      case "workflowy_get_node_hierarchy": {
-        const { nodeId, depth } = args as { nodeId: string; depth?: number };
-        const result = await workflowy.getNodeWithChildren(nodeId, depth || 1);
+      case "workflowy_get_node": {
+        const { nodeId } = args as ToolArguments<"workflowy_get_node">;
+        const result = await workflowy.getNode(nodeId);
         return {
           content: [
             {
@@ -600,8 +1598,47 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "workflowy_list_nodes": {
+        const { parentId, ...shaping } = args as ToolArguments<"workflowy_list_nodes">;
+        const { nodes } = await workflowy.listNodes(parentId);
+        return shapedResult({
+          tool: name,
+          args,
+          items: needsBreadcrumbs(shaping)
+            ? withBreadcrumbs(nodes, await workflowy.getAllNodes())
+            : nodes,
+          options: shaping,
+          envelope: (page) => ({ nodes: page }),
+          title: parentId ? `Children of ${parentId}` : "Top-level nodes",
+        });
+      }
+
+      case "workflowy_search": {
+        const { query, syntax, searchName, searchNote, caseSensitive, maxResults, ...shaping } =
+          args as ToolArguments<"workflowy_search">;
+        const searchOptions = { searchName, searchNote, caseSensitive, maxResults };
+        const results =
+          syntax === "query"
+            ? await workflowy.queryNodes(query, searchOptions)
+            : await workflowy.searchNodes(query, searchOptions);
+        return shapedResult({
+          tool: name,
+          args,
+          items: results,
+          options: shaping,
+          envelope: (page) => ({ query, resultCount: results.length, results: page }),
+          title: `Search results for "${query}"`,
+        });
+      }
+
+      case "workflowy_get_node_hierarchy": {
+        const { nodeId, depth, ...shaping } = args as ToolArguments<"workflowy_get_node_hierarchy">;
+        const result = await workflowy.getNodeWithChildren(nodeId, depth || 1);
+        return { content: [{ type: "text", text: shapeTree(result, shaping) }] };
+      }
+
       case "workflowy_update_node": {
-        const { nodeId, ...updateParams } = args as any;
+        const { nodeId, ...updateParams } = args as ToolArguments<"workflowy_update_node">;
         const result = await workflowy.updateNode(nodeId, updateParams);
         return {
           content: [
@@ -614,7 +1651,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "workflowy_delete_node": {
-        const { nodeId } = args as { nodeId: string };
+        const { nodeId } = args as ToolArguments<"workflowy_delete_node">;
         const result = await workflowy.deleteNode(nodeId);
         return {
           content: [
@@ -627,11 +1664,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "workflowy_move_node": {
-        const { nodeId, parentId, priority } = args as {
-          nodeId: string;
-          parentId: string;
-          priority?: number;
-        };
+        const { nodeId, parentId, priority } = args as ToolArguments<"workflowy_move_node">;
         const result = await workflowy.moveNode(nodeId, parentId, priority);
         return {
           content: [
@@ -643,8 +1676,39 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "workflowy_sort_children": {
+        const {
+          parentId,
+          by,
+          descending,
+          order,
+          dryRun = true,
+        } = args as ToolArguments<"workflowy_sort_children">;
+        if ((by === "order") !== (order !== undefined)) {
+          throw new ToolInputError(name, [
+            {
+              field: "order",
+              message:
+                by === "order"
+                  ? "is required when by is 'order'"
+                  : "is only used when by is 'order'",
+            },
+          ]);
+        }
+        const result = await workflowy.sortChildren(parentId, { by, descending, order }, dryRun);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: "failed" in result && result.failed + result.rateLimited > 0 ? true : undefined,
+        };
+      }
+
       case "workflowy_complete_node": {
-        const { nodeId } = args as { nodeId: string };
+        const { nodeId } = args as ToolArguments<"workflowy_complete_node">;
         const result = await workflowy.completeNode(nodeId);
         return {
           content: [
@@ -657,7 +1721,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "workflowy_uncomplete_node": {
-        const { nodeId } = args as { nodeId: string };
+        const { nodeId } = args as ToolArguments<"workflowy_uncomplete_node">;
         const result = await workflowy.uncompleteNode(nodeId);
         return {
           content: [
@@ -670,7 +1734,272 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "workflowy_export": {
-        const result = await workflowy.exportNodes();
+        const { format = "json", nodeId, ...shaping } = args as ToolArguments<"workflowy_export">;
+        const allNodes = await workflowy.getAllNodes();
+        let text: string;
+        switch (format) {
+          case "markdown":
+            text = truncateText(renderMarkdown(allNodes, nodeId), shaping);
+            break;
+          case "opml":
+            text = truncateText(renderOpml(allNodes, nodeId), shaping, true);
+            break;
+          case "plaintext":
+            text = truncateText(renderPlainText(allNodes, nodeId), shaping);
+            break;
+          default: {
+            const nodes = nodeId ? collectSubtree(allNodes, nodeId) : allNodes;
+            return shapedResult({
+              tool: name,
+              args,
+              items: needsBreadcrumbs(shaping) ? withBreadcrumbs(nodes, allNodes) : nodes,
+              options: shaping,
+              envelope: (page) => ({ nodes: page }),
+              title: "Exported nodes",
+            });
+          }
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+        };
+      }
+
+      case "workflowy_batch": {
+        const { operations, stopOnError, delayMs } = args as ToolArguments<"workflowy_batch">;
+        // validateBatch has checked each operation's own required fields
+        const result = await runBatch(workflowy, operations as BatchOperation[], {
+          stopOnError,
+          delayMs,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: result.failed + result.rateLimited > 0 ? true : undefined,
+        };
+      }
+
+      case "workflowy_list_trash": {
+        const shaping = args as ToolArguments<"workflowy_list_trash">;
+        const entries = workflowy.listTrash();
+        return shapedResult({
+          tool: name,
+          args,
+          items: entries,
+          options: shaping,
+          envelope: (page) => ({ entries: page }),
+          title: "Trash",
+          line: (entry) =>
+            `${entry.name} | ${entry.parentBreadcrumb || "(top level)"} | ${entry.id}`,
+        });
+      }
+
+      case "workflowy_restore_deleted": {
+        const { trashId, parentId, priority } = args as ToolArguments<"workflowy_restore_deleted">;
+        const result = await workflowy.restoreDeleted(trashId, parentId, priority);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "workflowy_copy_subtree": {
+        const { nodeId, parentId, priority, resetCompletion } =
+          args as ToolArguments<"workflowy_copy_subtree">;
+        const { targetAccount } = args as { targetAccount?: string };
+        const result = await workflowy.copySubtree(nodeId, parentId, {
+          priority,
+          resetCompletion,
+          target: targetAccount ? clientFor(targetAccount) : undefined,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "workflowy_list_templates": {
+        const shaping = args as ToolArguments<"workflowy_list_templates">;
+        const templates = await workflowy.listTemplates();
+        return shapedResult({
+          tool: name,
+          args,
+          items: templates,
+          options: shaping,
+          envelope: (page) => ({ templates: page }),
+          title: "Templates",
+        });
+      }
+
+      case "workflowy_instantiate_template": {
+        const { template, parentId, variables, priority } =
+          args as ToolArguments<"workflowy_instantiate_template">;
+        const result = await workflowy.instantiateTemplate(template, parentId, variables, priority);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "workflowy_history": {
+        const { limit, ...shaping } = args as ToolArguments<"workflowy_history">;
+        const entries = workflowy.getHistory(limit);
+        return shapedResult({
+          tool: name,
+          args,
+          items: entries,
+          options: shaping,
+          envelope: (page) => ({ entries: page }),
+          title: "Recent operations",
+          line: (entry) =>
+            `${entry.id} | ${entry.summary} | ${entry.undoable ? "undoable" : "not undoable"}`,
+        });
+      }
+
+      case "workflowy_undo": {
+        const { entryId } = args as ToolArguments<"workflowy_undo">;
+        const result = await workflowy.undo(entryId);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "workflowy_list_tasks": {
+        const { nodeId, fields, output, cursor, pageSize, maxChars, maxTokens, ...filter } =
+          args as ToolArguments<"workflowy_list_tasks">;
+        const result = await workflowy.listTasks({ scopeId: nodeId, ...filter });
+        return shapedResult({
+          tool: name,
+          args,
+          items: result.tasks,
+          options: { fields, output, cursor, pageSize, maxChars, maxTokens },
+          envelope: (page) => ({ ...result, tasks: page }),
+          title: `Tasks (today is ${result.today})`,
+          label: (task) =>
+            `${task.completed ? "[x]" : "[ ]"} ${task.due ? `(due ${task.due}) ` : ""}`,
+        });
+      }
+
+      case "workflowy_list_tags": {
+        const { nodeId, kind, prefix, ...shaping } = args as ToolArguments<"workflowy_list_tags">;
+        const tags = await workflowy.listTags({ scopeId: nodeId, kind, prefix });
+        return shapedResult({
+          tool: name,
+          args,
+          items: tags,
+          options: shaping,
+          envelope: (page) => ({ tagCount: tags.length, tags: page }),
+          title: "Tags",
+          key: "tag",
+          line: (tag) => `${tag.tag} | ${tag.nodeCount} node(s), ${tag.openCount} open`,
+        });
+      }
+
+      case "workflowy_get_tag": {
+        const { tag, includeCompleted, maxResults, ...shaping } =
+          args as ToolArguments<"workflowy_get_tag">;
+        const result = await workflowy.getTagged(tag, { includeCompleted, maxResults });
+        return shapedResult({
+          tool: name,
+          args,
+          items: result.nodes,
+          options: shaping,
+          envelope: (page) => ({ ...result, nodes: page }),
+          title: `Nodes tagged ${result.tag}`,
+        });
+      }
+
+      case "workflowy_rename_tag": {
+        const { from, to, dryRun = true } = args as ToolArguments<"workflowy_rename_tag">;
+        const result = await workflowy.renameTag(from, to, dryRun);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: "failed" in result && result.failed + result.rateLimited > 0 ? true : undefined,
+        };
+      }
+
+      case "workflowy_changes_since": {
+        const { since, snapshotId, ...shaping } = args as ToolArguments<"workflowy_changes_since">;
+        const result = await workflowy.changesSince({ since, snapshotId });
+        return shapedResult({
+          tool: name,
+          args,
+          items: result.changes,
+          options: shaping,
+          envelope: (page) => ({ ...result, changes: page }),
+          title: "Changes",
+          label: (change) => `${change.type}: `,
+        });
+      }
+
+      case "workflowy_stats": {
+        const { nodeId, staleDays, limit } = args as ToolArguments<"workflowy_stats">;
+        const result = await workflowy.stats({ scopeId: nodeId, staleDays, limit });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "workflowy_cache_status": {
+        const result = workflowy.getCacheStatus();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "workflowy_list_accounts": {
+        const result = [...accounts].map(([account, client]) => {
+          const cache = client.getCacheStatus();
+          return {
+            name: account,
+            default: account === accountConfig.defaultAccount,
+            cache: {
+              source: cache.source,
+              nodeCount: cache.nodeCount,
+              ageSeconds: cache.ageSeconds,
+            },
+          };
+        });
         return {
           content: [
             {
@@ -694,9 +2023,42 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       default:
-        throw new Error(`Unknown tool: ${name}`);
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
     }
   } catch (error) {
+    if (error instanceof ArgumentError) {
+      error = new ToolInputError(request.params.name, error.issues);
+    }
+    if (error instanceof ToolInputError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              { error: error.message, tool: error.tool, issues: error.issues },
+              null,
+              2
+            ),
+          },
+        ],
+        isError: true,
+      };
+    }
+    if (
+      error instanceof QueryParseError ||
+      error instanceof NodePathError ||
+      error instanceof WorkflowyApiError
+    ) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: error.message,
+          },
+        ],
+        isError: true,
+      };
+    }
     if (axios.isAxiosError(error)) {
       const status = error.response?.status;
       const message = error.response?.data?.message || error.message;
@@ -710,14 +2072,61 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         isError: true,
       };
     }
+    // Anything else the tool could not do is the tool's failure, not the protocol's
+    if (error instanceof Error && !(error instanceof McpError)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: error.message,
+          },
+        ],
+        isError: true,
+      };
+    }
     throw error;
   }
-});
+}
+
+// One MCP server per connection. Every session shares the WorkflowyClient,
+// so its cache and the export rate limit are shared too.
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "workflowy-mcp-server",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, callTool);
+  server.setRequestHandler(ListResourcesRequestSchema, listResources);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, listResourceTemplates);
+  server.setRequestHandler(ReadResourceRequestSchema, readResource);
+  server.setRequestHandler(ListPromptsRequestSchema, listPrompts);
+  server.setRequestHandler(GetPromptRequestSchema, getPrompt);
+  server.onclose = handleSubscriptions(server);
+  return server;
+}
 
-// Start the server
+// Start the server on stdio, or over HTTP with --http / WORKFLOWY_TRANSPORT=http
 async function main() {
+  const options = parseTransportOptions(process.argv.slice(2), process.env);
+  if (options.transport === "http") {
+    await startHttpServer(options, createServer, () => {
+      const cache = workflowy.getCacheStatus();
+      return { mode: serverMode, cache: { source: cache.source, ageSeconds: cache.ageSeconds } };
+    });
+    return;
+  }
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("Workflowy MCP Server running on stdio");
 }
 
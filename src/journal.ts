@@ -0,0 +1,106 @@
+// Journal of mutations made through WorkflowyClient, with the state each one
+// replaced so that it can be undone
+
+import { FlatNode } from "./outline-format.js";
+
+export type JournalOperation = "create" | "update" | "move" | "complete" | "uncomplete" | "delete";
+
+// Node fields as they were before the mutation, read from the cache
+export interface PriorState {
+  name?: string | null;
+  note?: string | null;
+  priority?: number;
+  layoutMode?: string;
+  parentId?: string | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: number;
+  operation: JournalOperation;
+  nodeId: string;
+  name: string;
+  // What the mutation changed; for create, the new node's fields
+  params?: Record<string, unknown>;
+  // Null when the node was not in the cache, which makes the entry not undoable
+  before: PriorState | null;
+  // For delete: the removed subtree, root first, and its local trash entry
+  subtree?: FlatNode[];
+  trashId?: string;
+  // Set on entries produced by undoing another entry
+  undoOf?: string;
+  undoneBy?: string;
+}
+
+export class Journal {
+  private entries: JournalEntry[] = [];
+  private nextId = 1;
+
+  constructor(private limit: number) {}
+
+  record(entry: Omit<JournalEntry, "id" | "timestamp">): JournalEntry {
+    const recorded = { id: `op-${this.nextId++}`, timestamp: Date.now(), ...entry };
+    this.entries.push(recorded);
+    if (this.entries.length > this.limit) this.entries.shift();
+    return recorded;
+  }
+
+  get(id: string): JournalEntry | undefined {
+    return this.entries.find((e) => e.id === id);
+  }
+
+  // The delete that put a subtree in the local trash
+  forTrash(trashId: string): JournalEntry | undefined {
+    return this.entries.find((e) => e.operation === "delete" && e.trashId === trashId);
+  }
+
+  // Most recent first
+  recent(limit: number): JournalEntry[] {
+    return this.entries.slice(-limit).reverse();
+  }
+
+  // The most recent entry that can still be undone
+  latestUndoable(): JournalEntry | undefined {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      if (undoBlocker(this.entries[i]) === null) return this.entries[i];
+    }
+    return undefined;
+  }
+}
+
+// Why an entry cannot be undone, or null if it can
+export function undoBlocker(entry: JournalEntry): string | null {
+  if (entry.undoneBy) return `already undone by ${entry.undoneBy}`;
+  if (
+    entry.operation === "create" ||
+    entry.operation === "complete" ||
+    entry.operation === "uncomplete"
+  ) {
+    return null;
+  }
+  if (!entry.before) return "the node's previous state was not in the cache";
+  if (entry.operation === "delete" && !entry.subtree?.length) {
+    return "the deleted subtree was not in the cache";
+  }
+  return null;
+}
+
+export function describeEntry(entry: JournalEntry): string {
+  const target = `"${entry.name}" (${entry.nodeId})`;
+  switch (entry.operation) {
+    case "create":
+      return `Created ${target}`;
+    case "update":
+      return `Updated ${Object.keys(entry.params || {}).join(", ")} of ${target}`;
+    case "move":
+      return `Moved ${target} to ${entry.params?.parentId ?? "root"}`;
+    case "complete":
+      return `Completed ${target}`;
+    case "uncomplete":
+      return `Uncompleted ${target}`;
+    case "delete": {
+      const extra = (entry.subtree?.length || 1) - 1;
+      return `Deleted ${target}${extra > 0 ? ` and ${extra} descendant(s)` : ""}`;
+    }
+  }
+}
@@ -0,0 +1,152 @@
+// In-memory stand-in for the Workflowy API, for offline runs and tests. It
+// keeps the semantics the client relies on: sibling priorities, "None" as the
+// top level, target keys as parents, subtree deletes, 404s for unknown nodes,
+// and the export rate limit answered with a 429 and retry_after.
+
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { NotFoundError, RateLimitedError, WorkflowyApiError } from "./api-request.js";
+import type { ApiNodeParams, WorkflowyBackend, WorkflowyTarget } from "./backend.js";
+import * as cachePatch from "./cache-patch.js";
+import type { WorkflowyNode } from "./outline-format.js";
+
+export interface MemoryTarget extends WorkflowyTarget {
+  // The node the target stands for when used as a parent
+  nodeId?: string;
+}
+
+export interface MemoryBackendOptions {
+  nodes?: WorkflowyNode[];
+  targets?: MemoryTarget[];
+  // Minimum gap between exports, like the API's one request a minute
+  exportIntervalMs?: number;
+}
+
+export class MemoryBackend implements WorkflowyBackend {
+  private nodes: WorkflowyNode[];
+  private targets: MemoryTarget[];
+  private exportIntervalMs: number;
+  private nextExportAt = 0;
+
+  constructor(options: MemoryBackendOptions = {}) {
+    this.nodes = structuredClone(options.nodes || []);
+    this.targets = options.targets || [];
+    this.exportIntervalMs = options.exportIntervalMs ?? 60000;
+  }
+
+  // WORKFLOWY_FAKE_SEED names a JSON file shaped like an export ({ nodes,
+  // targets }); WORKFLOWY_FAKE_EXPORT_INTERVAL overrides the export limit in ms
+  static fromEnv(env: NodeJS.ProcessEnv): MemoryBackend {
+    const seed = env.WORKFLOWY_FAKE_SEED
+      ? JSON.parse(readFileSync(env.WORKFLOWY_FAKE_SEED, "utf8"))
+      : {};
+    return new MemoryBackend({
+      nodes: seed.nodes,
+      targets: seed.targets,
+      exportIntervalMs: env.WORKFLOWY_FAKE_EXPORT_INTERVAL
+        ? Number(env.WORKFLOWY_FAKE_EXPORT_INTERVAL)
+        : undefined,
+    });
+  }
+
+  private find(nodeId: string, endpoint: string): WorkflowyNode {
+    const node = this.nodes.find((n) => n.id === nodeId);
+    if (!node) throw new NotFoundError(endpoint, `Node ${nodeId} not found`);
+    return node;
+  }
+
+  // A parent_id as the API accepts it: "None" or absent for the top level,
+  // a target key, or a node ID
+  private resolveParent(parentId: string | undefined, endpoint: string): string | null {
+    if (!parentId || parentId === "None") return null;
+    const target = this.targets.find((t) => t.key === parentId);
+    if (target) return target.nodeId ?? null;
+    return this.find(parentId, endpoint).id;
+  }
+
+  async exportNodes() {
+    const endpoint = "GET /nodes-export";
+    const now = Date.now();
+    if (now < this.nextExportAt) {
+      throw new RateLimitedError(endpoint, Math.ceil((this.nextExportAt - now) / 1000));
+    }
+    this.nextExportAt = now + this.exportIntervalMs;
+    return { nodes: structuredClone(this.nodes) };
+  }
+
+  async listNodes(parentId?: string) {
+    const parent = this.resolveParent(parentId, "GET /nodes");
+    const children = this.nodes
+      .filter((n) => (n.parent_id || null) === parent)
+      .sort((a, b) => a.priority - b.priority);
+    return { nodes: structuredClone(children) };
+  }
+
+  async getNode(nodeId: string) {
+    return { node: structuredClone(this.find(nodeId, "GET /nodes/:id")) };
+  }
+
+  async createNode(params: ApiNodeParams) {
+    const parentId = this.resolveParent(params.parent_id, "POST /nodes");
+    const id = randomUUID();
+    this.nodes = cachePatch.insertNode(this.nodes, {
+      id,
+      parentId: parentId ?? undefined,
+      name: params.name ?? "",
+      note: params.note,
+      priority: params.priority,
+      layoutMode: params.data?.layoutMode,
+    });
+    return { item_id: id };
+  }
+
+  async updateNode(nodeId: string, params: ApiNodeParams) {
+    this.find(nodeId, "POST /nodes/:id");
+    this.nodes = cachePatch.patchNode(this.nodes, nodeId, {
+      name: params.name,
+      note: params.note,
+      priority: params.priority,
+      layoutMode: params.data?.layoutMode,
+    });
+    return { status: "ok" };
+  }
+
+  async deleteNode(nodeId: string) {
+    this.find(nodeId, "DELETE /nodes/:id");
+    this.nodes = cachePatch.removeSubtree(this.nodes, nodeId);
+    return { status: "ok" };
+  }
+
+  async moveNode(nodeId: string, params: { parent_id: string; priority?: number }) {
+    const endpoint = "POST /nodes/:id/move";
+    this.find(nodeId, endpoint);
+    const parentId = this.resolveParent(params.parent_id, endpoint);
+    for (let id = parentId; id; id = this.nodes.find((n) => n.id === id)?.parent_id || null) {
+      if (id === nodeId) {
+        throw new WorkflowyApiError(
+          `Workflowy API error (400): cannot move a node under itself`,
+          endpoint,
+          400
+        );
+      }
+    }
+    this.nodes = cachePatch.moveNode(this.nodes, nodeId, parentId, params.priority);
+    return { status: "ok" };
+  }
+
+  async completeNode(nodeId: string) {
+    this.find(nodeId, "POST /nodes/:id/complete");
+    this.nodes = cachePatch.setCompleted(this.nodes, nodeId, true);
+    return { status: "ok" };
+  }
+
+  async uncompleteNode(nodeId: string) {
+    this.find(nodeId, "POST /nodes/:id/uncomplete");
+    this.nodes = cachePatch.setCompleted(this.nodes, nodeId, false);
+    return { status: "ok" };
+  }
+
+  async listTargets() {
+    return { targets: this.targets.map(({ nodeId: _nodeId, ...target }) => target) };
+  }
+}
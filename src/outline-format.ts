@@ -0,0 +1,430 @@
+// Conversion between plain-text outline formats (Markdown, OPML) and Workflowy node trees
+
+import { ArgumentError } from "./schema.js";
+
+export const LAYOUT_MODES = [
+  "bullets",
+  "todo",
+  "h1",
+  "h2",
+  "h3",
+  "code-block",
+  "quote-block",
+] as const;
+
+export type LayoutMode = (typeof LAYOUT_MODES)[number];
+
+// A node parsed from source text, before it exists in Workflowy
+export interface OutlineItem {
+  name: string;
+  note?: string;
+  layoutMode?: LayoutMode;
+  completed?: boolean;
+  line: number; // 1-based line in the source text
+  children: OutlineItem[];
+}
+
+export type OutlineFormat = "markdown" | "opml";
+
+// Guess the format of a pasted outline
+export function detectOutlineFormat(text: string): OutlineFormat {
+  const start = text.trimStart().slice(0, 200).toLowerCase();
+  return start.startsWith("<?xml") || start.startsWith("<opml") ? "opml" : "markdown";
+}
+
+export function parseOutline(text: string, format?: OutlineFormat): OutlineItem[] {
+  return (format || detectOutlineFormat(text)) === "opml"
+    ? parseOpmlOutline(text)
+    : parseMarkdownOutline(text);
+}
+
+// Markdown
+
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM_RE = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const TASK_RE = /^\[( |x|X)\]\s+(.*)$/;
+const FENCE_RE = /^(\s*)(```+|~~~+)/;
+const QUOTE_RE = /^(\s*)>\s?(.*)$/;
+
+// Headings always rank above list content, so lists nest under the last heading
+const LIST_RANK_BASE = 100;
+
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, "    ").length;
+}
+
+export function parseMarkdownOutline(text: string): OutlineItem[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const roots: OutlineItem[] = [];
+  const stack: { rank: number; item: OutlineItem }[] = [];
+  // Most recent list item, so indented continuation lines can become its note
+  let lastListItem: { item: OutlineItem; indent: number } | null = null;
+
+  const attach = (item: OutlineItem, rank: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].rank >= rank) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    (parent ? parent.item.children : roots).push(item);
+    stack.push({ rank, item });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNumber = i + 1;
+    if (line.trim() === "") continue;
+
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      const indent = indentWidth(fence[1]);
+      const marker = fence[2];
+      const body: string[] = [];
+      let j = i + 1;
+      while (j < lines.length && !lines[j].trim().startsWith(marker)) {
+        // Strip the fence's own indentation from the code lines
+        body.push(lines[j].replace(new RegExp(`^\\s{0,${indent}}`), ""));
+        j++;
+      }
+      attach(
+        { name: body.join("\n"), layoutMode: "code-block", line: lineNumber, children: [] },
+        LIST_RANK_BASE + indent
+      );
+      lastListItem = null;
+      i = j;
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      const level = heading[1].length;
+      const layoutMode: LayoutMode = level === 1 ? "h1" : level === 2 ? "h2" : "h3";
+      attach({ name: heading[2], layoutMode, line: lineNumber, children: [] }, level);
+      lastListItem = null;
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM_RE);
+    if (listItem) {
+      const indent = indentWidth(listItem[1]);
+      const item: OutlineItem = { name: listItem[2].trim(), line: lineNumber, children: [] };
+      const task = item.name.match(TASK_RE);
+      if (task) {
+        item.name = task[2].trim();
+        item.layoutMode = "todo";
+        if (task[1] !== " ") item.completed = true;
+      }
+      attach(item, LIST_RANK_BASE + indent);
+      lastListItem = { item, indent };
+      continue;
+    }
+
+    const leading = indentWidth(line.match(/^\s*/)![0]);
+    if (lastListItem && leading > lastListItem.indent) {
+      const noteLine = line.trim();
+      lastListItem.item.note = lastListItem.item.note
+        ? `${lastListItem.item.note}\n${noteLine}`
+        : noteLine;
+      continue;
+    }
+
+    const quote = line.match(QUOTE_RE);
+    if (quote) {
+      attach(
+        { name: quote[2].trim(), layoutMode: "quote-block", line: lineNumber, children: [] },
+        LIST_RANK_BASE + indentWidth(quote[1])
+      );
+      lastListItem = null;
+      continue;
+    }
+
+    // Plain paragraph text becomes an ordinary bullet at its indentation
+    attach({ name: line.trim(), line: lineNumber, children: [] }, LIST_RANK_BASE + leading);
+    lastListItem = null;
+  }
+
+  return roots;
+}
+
+// OPML
+
+const OUTLINE_TAG_RE = /<(\/?)outline\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/gi;
+const ATTRIBUTE_RE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    switch (lower) {
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return match;
+    }
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_RE)) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+export function parseOpmlOutline(text: string): OutlineItem[] {
+  const roots: OutlineItem[] = [];
+  const stack: OutlineItem[] = [];
+
+  // Precompute line starts so tag offsets can be reported as line numbers
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") lineStarts.push(i + 1);
+  }
+  const lineAt = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  for (const match of text.matchAll(OUTLINE_TAG_RE)) {
+    const [, closing, attributeSource, selfClosing] = match;
+    if (closing) {
+      if (stack.length === 0) {
+        throw new Error(`Invalid OPML: unexpected </outline> on line ${lineAt(match.index!)}`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    const attributes = parseAttributes(attributeSource);
+    const item: OutlineItem = {
+      name: attributes.text ?? attributes.title ?? "",
+      line: lineAt(match.index!),
+      children: [],
+    };
+    if (attributes._note) item.note = attributes._note;
+    if (attributes._complete === "true") item.completed = true;
+
+    const parent = stack[stack.length - 1];
+    (parent ? parent.children : roots).push(item);
+    if (!selfClosing) stack.push(item);
+  }
+
+  if (stack.length > 0) {
+    throw new Error(
+      `Invalid OPML: <outline> on line ${stack[stack.length - 1].line} is never closed`
+    );
+  }
+  return roots;
+}
+
+// Rendering
+
+// The subset of exported node fields the renderers rely on
+export interface FlatNode {
+  id: string;
+  name?: string | null;
+  note?: string | null;
+  parent_id?: string | null;
+  priority?: number;
+  completed?: boolean;
+  completedAt?: number | null;
+  createdAt?: number | null;
+  modifiedAt?: number | null;
+  data?: { layoutMode?: string } | null;
+}
+
+// A node as the API returns it from /nodes, /nodes/:id and /nodes-export.
+// Timestamps are Unix seconds; parent_id is null at the top level.
+export interface WorkflowyNode extends FlatNode {
+  name: string;
+  note: string | null;
+  parent_id: string | null;
+  priority: number;
+  completed: boolean;
+  completedAt: number | null;
+  createdAt: number;
+  modifiedAt: number;
+  data: { layoutMode?: string };
+}
+
+// A node with its descendants nested, as workflowy_get_node_hierarchy returns it
+export type WorkflowyNodeTree = WorkflowyNode & { children?: WorkflowyNodeTree[] };
+
+export type ExportFormat = "json" | "markdown" | "opml" | "plaintext";
+
+export function isCompleted(node: FlatNode): boolean {
+  return node.completed === true || !!node.completedAt;
+}
+
+export function layoutModeOf(node: FlatNode): string {
+  return node.data?.layoutMode || "bullets";
+}
+
+// API timestamps are Unix seconds; tolerate milliseconds too
+export function timestampMs(value: number | null | undefined): number | null {
+  if (!value) return null;
+  return value < 1e12 ? value * 1000 : value;
+}
+
+// Group a flat export by parent, each group in sibling order
+export function buildChildrenMap<T extends FlatNode>(nodes: T[]): Map<string | null, T[]> {
+  const children = new Map<string | null, T[]>();
+  for (const node of nodes) {
+    const parentId = node.parent_id || null;
+    const siblings = children.get(parentId);
+    if (siblings) siblings.push(node);
+    else children.set(parentId, [node]);
+  }
+  for (const siblings of children.values()) {
+    siblings.sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+  }
+  return children;
+}
+
+// Top-level nodes to render: the given root, or every root-level node
+function renderRoots<T extends FlatNode>(
+  nodes: T[],
+  children: Map<string | null, T[]>,
+  rootId?: string
+): T[] {
+  if (!rootId) return children.get(null) || [];
+  const root = nodes.find((n) => n.id === rootId);
+  if (!root) throw new ArgumentError([{ field: "nodeId", message: `${rootId} was not found` }]);
+  return [root];
+}
+
+// Collect a node and all of its descendants from a flat export
+export function collectSubtree<T extends FlatNode>(nodes: T[], rootId: string): T[] {
+  const children = buildChildrenMap(nodes);
+  const root = nodes.find((n) => n.id === rootId);
+  if (!root) throw new ArgumentError([{ field: "nodeId", message: `${rootId} was not found` }]);
+  const result: T[] = [];
+  const visit = (node: T) => {
+    result.push(node);
+    for (const child of children.get(node.id) || []) visit(child);
+  };
+  visit(root);
+  return result;
+}
+
+export function renderMarkdown(nodes: FlatNode[], rootId?: string): string {
+  const children = buildChildrenMap(nodes);
+  const lines: string[] = [];
+
+  // Headings are only emitted as "#" lines while outside any list; nested
+  // deeper than that they fall back to bold list items
+  const visit = (node: FlatNode, depth: number, inList: boolean) => {
+    const indent = "  ".repeat(depth);
+    const name = node.name || "";
+    const layout = layoutModeOf(node);
+    const completed = isCompleted(node);
+    const kids = children.get(node.id) || [];
+
+    if (!inList && (layout === "h1" || layout === "h2" || layout === "h3")) {
+      if (lines.length > 0) lines.push("");
+      const hashes = "#".repeat(Number(layout[1]));
+      lines.push(`${hashes} ${completed ? `~~${name}~~` : name}`);
+      if (node.note) lines.push("", node.note);
+      if (kids.length > 0) lines.push("");
+      for (const child of kids) visit(child, 0, false);
+      return;
+    }
+
+    if (layout === "code-block") {
+      lines.push(`${indent}\`\`\``);
+      for (const codeLine of name.split("\n")) lines.push(`${indent}${codeLine}`);
+      lines.push(`${indent}\`\`\``);
+    } else if (layout === "quote-block") {
+      for (const quoteLine of name.split("\n")) lines.push(`${indent}> ${quoteLine}`);
+    } else {
+      let text = name;
+      if (layout === "h1" || layout === "h2" || layout === "h3") text = `**${text}**`;
+      if (layout === "todo") text = `[${completed ? "x" : " "}] ${text}`;
+      else if (completed) text = `~~${text}~~`;
+      lines.push(`${indent}- ${text}`);
+    }
+    if (node.note) {
+      for (const noteLine of node.note.split("\n")) lines.push(`${indent}  ${noteLine}`);
+    }
+    for (const child of kids) visit(child, depth + 1, true);
+  };
+
+  for (const root of renderRoots(nodes, children, rootId)) visit(root, 0, false);
+  return lines.join("\n") + "\n";
+}
+
+export function encodeXmlEntities(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "&#10;");
+}
+
+export function renderOpml(nodes: FlatNode[], rootId?: string, title = "Workflowy export"): string {
+  const children = buildChildrenMap(nodes);
+  const lines = [
+    '<?xml version="1.0"?>',
+    '<opml version="2.0">',
+    `  <head><title>${encodeXmlEntities(title)}</title></head>`,
+    "  <body>",
+  ];
+
+  const visit = (node: FlatNode, depth: number) => {
+    const indent = "  ".repeat(depth + 2);
+    let attributes = `text="${encodeXmlEntities(node.name || "")}"`;
+    if (node.note) attributes += ` _note="${encodeXmlEntities(node.note)}"`;
+    if (isCompleted(node)) attributes += ' _complete="true"';
+    const kids = children.get(node.id) || [];
+    if (kids.length === 0) {
+      lines.push(`${indent}<outline ${attributes}/>`);
+      return;
+    }
+    lines.push(`${indent}<outline ${attributes}>`);
+    for (const child of kids) visit(child, depth + 1);
+    lines.push(`${indent}</outline>`);
+  };
+
+  for (const root of renderRoots(nodes, children, rootId)) visit(root, 0);
+  lines.push("  </body>", "</opml>");
+  return lines.join("\n") + "\n";
+}
+
+export function renderPlainText(nodes: FlatNode[], rootId?: string): string {
+  const children = buildChildrenMap(nodes);
+  const lines: string[] = [];
+
+  const visit = (node: FlatNode, depth: number) => {
+    const indent = "  ".repeat(depth);
+    const layout = layoutModeOf(node);
+    let marker = "";
+    if (isCompleted(node)) marker = "[x] ";
+    else if (layout === "todo") marker = "[ ] ";
+    const [first, ...rest] = (node.name || "").split("\n");
+    lines.push(`${indent}${marker}${first}`);
+    for (const line of rest) lines.push(`${indent}${" ".repeat(marker.length)}${line}`);
+    if (node.note) {
+      for (const noteLine of node.note.split("\n")) lines.push(`${indent}  | ${noteLine}`);
+    }
+    for (const child of children.get(node.id) || []) visit(child, depth + 1);
+  };
+
+  for (const root of renderRoots(nodes, children, rootId)) visit(root, 0);
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,106 @@
+// Breadcrumbs and path-based node addressing ("Work > Projects > Q3 Launch")
+
+import { buildChildrenMap, FlatNode } from "./outline-format.js";
+
+export const PATH_SEPARATOR = " > ";
+
+export class NodePathError extends Error {
+  constructor(
+    message: string,
+    public reason: "invalid" | "not_found" | "ambiguous"
+  ) {
+    super(message);
+    this.name = "NodePathError";
+  }
+}
+
+// Workflowy node IDs are UUIDs; anything else may be a path
+const NODE_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function looksLikeNodeId(value: string): boolean {
+  return NODE_ID_RE.test(value);
+}
+
+// Node names may carry inline formatting markup; compare on the visible text
+export function plainName(name: string | null | undefined): string {
+  return (name || "")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Names of a node's ancestors, outermost first (the node itself excluded)
+export function ancestorNames<T extends FlatNode>(
+  nodeId: string,
+  nodeMap: Map<string, T>
+): string[] {
+  const names: string[] = [];
+  const seen = new Set<string>([nodeId]);
+  let parentId = nodeMap.get(nodeId)?.parent_id || null;
+  while (parentId && !seen.has(parentId)) {
+    const parent = nodeMap.get(parentId);
+    if (!parent) break;
+    names.unshift(plainName(parent.name));
+    seen.add(parentId);
+    parentId = parent.parent_id || null;
+  }
+  return names;
+}
+
+export function breadcrumb<T extends FlatNode>(nodeId: string, nodeMap: Map<string, T>): string {
+  return ancestorNames(nodeId, nodeMap).join(PATH_SEPARATOR);
+}
+
+// Attach the ancestor breadcrumb to each node of a result list
+export function withBreadcrumbs<T extends FlatNode>(
+  results: T[],
+  allNodes: T[]
+): (T & { breadcrumb: string })[] {
+  const nodeMap = new Map(allNodes.map((n) => [n.id, n]));
+  return results.map((node) => ({ ...node, breadcrumb: breadcrumb(node.id, nodeMap) }));
+}
+
+export function splitPath(path: string): string[] {
+  return path
+    .split(">")
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+}
+
+// Resolve an absolute path from the root of the outline to a single node.
+// Segment names match case-insensitively on their visible text.
+export function resolvePath<T extends FlatNode>(path: string, allNodes: T[]): T {
+  const segments = splitPath(path);
+  if (segments.length === 0) {
+    throw new NodePathError(`Invalid path "${path}": expected names separated by ">"`, "invalid");
+  }
+
+  const children = buildChildrenMap(allNodes);
+  let candidates = children.get(null) || [];
+  let resolved: T | null = null;
+
+  for (let i = 0; i < segments.length; i++) {
+    const wanted = segments[i].toLowerCase();
+    const matches = candidates.filter((n) => plainName(n.name).toLowerCase() === wanted);
+    const where =
+      i === 0 ? "at the top level" : `under "${segments.slice(0, i).join(PATH_SEPARATOR)}"`;
+
+    if (matches.length === 0) {
+      throw new NodePathError(
+        `Path "${path}" not found: no node named "${segments[i]}" ${where}`,
+        "not_found"
+      );
+    }
+    if (matches.length > 1) {
+      throw new NodePathError(
+        `Path "${path}" is ambiguous: ${matches.length} nodes named "${segments[i]}" ${where} ` +
+          `(IDs: ${matches.map((n) => n.id).join(", ")}). Use a node ID instead.`,
+        "ambiguous"
+      );
+    }
+    resolved = matches[0];
+    candidates = children.get(resolved.id) || [];
+  }
+
+  return resolved!;
+}
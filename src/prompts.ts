@@ -0,0 +1,190 @@
+// Parameterised MCP prompts, filled in from the cached outline so the model
+// starts with the relevant nodes already in front of it
+
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  buildChildrenMap,
+  collectSubtree,
+  FlatNode,
+  isCompleted,
+  layoutModeOf,
+  renderMarkdown,
+  timestampMs,
+} from "./outline-format.js";
+import { ancestorNames, breadcrumb, PATH_SEPARATOR, plainName } from "./paths.js";
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+const SCOPE_ARGUMENT: PromptArgument = {
+  name: "nodeId",
+  description:
+    'Node ID or path such as "Work > Projects" to limit the prompt to (default: whole outline)',
+};
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "daily_review",
+    description: "Review open todos and what was completed recently",
+    arguments: [
+      SCOPE_ARGUMENT,
+      { name: "days", description: "How many days of completed items to include (default: 1)" },
+    ],
+  },
+  {
+    name: "weekly_plan",
+    description: "Plan the coming week from open todos and the past week's progress",
+    arguments: [SCOPE_ARGUMENT],
+  },
+  {
+    name: "summarize_subtree",
+    description: "Summarize a node and everything under it",
+    arguments: [
+      {
+        name: "nodeId",
+        description: 'Node ID or path such as "Work > Projects" of the subtree to summarize',
+        required: true,
+      },
+    ],
+  },
+];
+
+// Keep embedded outlines to a size a model can take in one message
+const MAX_ITEMS = 200;
+const MAX_SUBTREE_CHARS = 40000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Nodes to consider: the scope node's subtree, or every node
+function scopeNodes(nodes: FlatNode[], scopeId: string | null): FlatNode[] {
+  return scopeId ? collectSubtree(nodes, scopeId) : nodes;
+}
+
+function scopeLabel(nodeMap: Map<string, FlatNode>, scopeId: string | null): string {
+  if (!scopeId) return "the whole outline";
+  const name = plainName(nodeMap.get(scopeId)?.name) || scopeId;
+  return `"${[...ancestorNames(scopeId, nodeMap), name].join(PATH_SEPARATOR)}"`;
+}
+
+// One line per item, with its path so the model knows where it lives
+function itemLines(items: FlatNode[], nodeMap: Map<string, FlatNode>, empty: string): string {
+  if (items.length === 0) return empty;
+  const lines = items.slice(0, MAX_ITEMS).map((node) => {
+    const name = (node.name || "(untitled)").split("\n")[0];
+    const parent = breadcrumb(node.id, nodeMap);
+    return `- ${name} (id: ${node.id}${parent ? `, in: ${parent}` : ""})`;
+  });
+  if (items.length > MAX_ITEMS) lines.push(`- … ${items.length - MAX_ITEMS} more`);
+  return lines.join("\n");
+}
+
+function openTodos(nodes: FlatNode[]): FlatNode[] {
+  return nodes.filter((n) => layoutModeOf(n) === "todo" && !isCompleted(n));
+}
+
+// Completed since the given time, most recent first
+function completedSince(nodes: FlatNode[], since: number): FlatNode[] {
+  return nodes
+    .filter((n) => isCompleted(n) && (timestampMs(n.completedAt) ?? 0) >= since)
+    .sort((a, b) => (timestampMs(b.completedAt) ?? 0) - (timestampMs(a.completedAt) ?? 0));
+}
+
+function userMessage(description: string, text: string): GetPromptResult {
+  return { description, messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+export function buildPrompt(
+  name: string,
+  args: Record<string, string | undefined>,
+  nodes: FlatNode[],
+  scopeId: string | null,
+  now = Date.now()
+): GetPromptResult {
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  if (scopeId && !nodeMap.has(scopeId)) throw new Error(`Node ${scopeId} not found`);
+
+  switch (name) {
+    case "daily_review": {
+      const days = args.days === undefined || args.days === "" ? 1 : Number(args.days);
+      if (!Number.isFinite(days) || days <= 0) {
+        throw new Error(`Invalid days "${args.days}": expected a positive number`);
+      }
+      const inScope = scopeNodes(nodes, scopeId);
+      const scope = scopeLabel(nodeMap, scopeId);
+      const period = days === 1 ? "the last day" : `the last ${days} days`;
+      const text = [
+        `Here is my Workflowy outline for a daily review of ${scope}.`,
+        "",
+        "## Open todos",
+        "",
+        itemLines(openTodos(inScope), nodeMap, "(none)"),
+        "",
+        `## Completed in ${period}`,
+        "",
+        itemLines(completedSince(inScope, now - days * DAY_MS), nodeMap, "(none)"),
+        "",
+        "Summarize what got done, point out todos that look stale, blocked or too vague, " +
+          "and suggest what to focus on today. Refer to items by name and ID.",
+      ].join("\n");
+      return userMessage(`Daily review of ${scope}`, text);
+    }
+    case "weekly_plan": {
+      const inScope = scopeNodes(nodes, scopeId);
+      const scope = scopeLabel(nodeMap, scopeId);
+      const weekAgo = now - 7 * DAY_MS;
+      const recentlyAdded = inScope.filter(
+        (n) => !isCompleted(n) && (timestampMs(n.createdAt) ?? 0) >= weekAgo
+      );
+      const text = [
+        `Here is my Workflowy outline for planning the coming week in ${scope}.`,
+        "",
+        "## Completed in the last 7 days",
+        "",
+        itemLines(completedSince(inScope, weekAgo), nodeMap, "(none)"),
+        "",
+        "## Added in the last 7 days",
+        "",
+        itemLines(recentlyAdded, nodeMap, "(none)"),
+        "",
+        "## Open todos",
+        "",
+        itemLines(openTodos(inScope), nodeMap, "(none)"),
+        "",
+        "Review last week's progress, then propose a plan for the coming week: the few " +
+          "priorities that matter most, which open todos to tackle on which days, and which " +
+          "to defer or drop. Refer to items by name and ID.",
+      ].join("\n");
+      return userMessage(`Weekly plan for ${scope}`, text);
+    }
+    case "summarize_subtree": {
+      if (!scopeId) throw new Error("summarize_subtree requires nodeId");
+      const subtree = collectSubtree(nodes, scopeId);
+      let outline = renderMarkdown(subtree, scopeId).trimEnd();
+      if (outline.length > MAX_SUBTREE_CHARS) {
+        outline = `${outline.slice(0, MAX_SUBTREE_CHARS)}\n… (truncated)`;
+      }
+      const scope = scopeLabel(nodeMap, scopeId);
+      const childCount = buildChildrenMap(subtree).get(scopeId)?.length ?? 0;
+      const text = [
+        `Here is the Workflowy subtree ${scope} (${subtree.length} nodes, ` +
+          `${childCount} direct children, ${subtree.filter(isCompleted).length} completed):`,
+        "",
+        outline,
+        "",
+        "Summarize it: the main themes, the state of any tasks, and anything that looks " +
+          "unfinished or inconsistent.",
+      ].join("\n");
+      return userMessage(`Summary of ${scope}`, text);
+    }
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
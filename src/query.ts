@@ -0,0 +1,339 @@
+// Structured search queries over the cached node list
+//
+// Syntax (terms are ANDed when written side by side):
+//   word  "exact phrase"  /regex/flags     text in name or note
+//   name:word  note:"phrase"  name:/re/    text in one field only
+//   #tag  @mention                         whole tag, so #api does not match #api-v2
+//   is:completed  is:open  is:todo         completion state / todo layout
+//   layout:h1                              layout mode
+//   under:<nodeId>  under:Work > Projects  descendants of a node, by ID or path
+//   a OR b   a AND b   NOT a   -a   ( ... )
+
+import { FlatNode, isCompleted, LAYOUT_MODES, layoutModeOf } from "./outline-format.js";
+import { PATH_SEPARATOR, resolvePath } from "./paths.js";
+
+export class QueryParseError extends Error {
+  constructor(
+    message: string,
+    public position: number
+  ) {
+    super(`Invalid query: ${message} (at position ${position + 1})`);
+    this.name = "QueryParseError";
+  }
+}
+
+type TextField = "name" | "note";
+
+export type QueryNode =
+  | { type: "and" | "or"; left: QueryNode; right: QueryNode }
+  | { type: "not"; operand: QueryNode }
+  | { type: "text"; value: string; field?: TextField }
+  | { type: "regex"; regex: RegExp; field?: TextField }
+  | { type: "tag"; value: string }
+  | { type: "is"; value: "completed" | "open" | "todo" }
+  | { type: "layout"; value: string }
+  | { type: "under"; ref: string };
+
+const IS_VALUES: Record<string, "completed" | "open" | "todo"> = {
+  completed: "completed",
+  complete: "completed",
+  done: "completed",
+  open: "open",
+  incomplete: "open",
+  todo: "todo",
+};
+
+type Token =
+  | { kind: "(" | ")" | "and" | "or" | "not"; position: number }
+  | { kind: "term"; term: QueryNode; position: number };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const start = i;
+    i++; // opening quote
+    let value = "";
+    while (i < query.length && query[i] !== '"') {
+      if (query[i] === "\\" && i + 1 < query.length) i++;
+      value += query[i++];
+    }
+    if (i >= query.length) throw new QueryParseError("unterminated quoted phrase", start);
+    i++; // closing quote
+    return value;
+  };
+
+  const readRegex = (): RegExp => {
+    const start = i;
+    i++; // opening slash
+    let source = "";
+    while (i < query.length && query[i] !== "/") {
+      if (query[i] === "\\" && i + 1 < query.length) source += query[i++];
+      source += query[i++];
+    }
+    if (i >= query.length) throw new QueryParseError("unterminated regular expression", start);
+    i++; // closing slash
+    let flags = "";
+    while (i < query.length && /[a-z]/i.test(query[i])) flags += query[i++];
+    try {
+      return new RegExp(source, flags);
+    } catch (error: any) {
+      throw new QueryParseError(
+        `bad regular expression /${source}/${flags}: ${error.message}`,
+        start
+      );
+    }
+  };
+
+  const readWord = (): string => {
+    let word = "";
+    while (i < query.length && !/[\s()]/.test(query[i])) word += query[i++];
+    return word;
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    const position = i;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ kind: char, position });
+      i++;
+      continue;
+    }
+    if (char === "-" && i + 1 < query.length && !/[\s()]/.test(query[i + 1])) {
+      tokens.push({ kind: "not", position });
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      tokens.push({ kind: "term", term: { type: "text", value: readQuoted() }, position });
+      continue;
+    }
+    if (char === "/") {
+      tokens.push({ kind: "term", term: { type: "regex", regex: readRegex() }, position });
+      continue;
+    }
+
+    // Field prefixes may be followed by a quoted phrase or a regex
+    const prefix = query.slice(i).match(/^(name|note|is|layout|under):/);
+    if (prefix) {
+      const field = prefix[1];
+      i += prefix[0].length;
+      const next = query[i];
+      if (field === "name" || field === "note") {
+        let term: QueryNode;
+        if (next === '"') term = { type: "text", value: readQuoted(), field };
+        else if (next === "/") term = { type: "regex", regex: readRegex(), field };
+        else {
+          const value = readWord();
+          if (!value) throw new QueryParseError(`missing value after "${field}:"`, position);
+          term = { type: "text", value, field };
+        }
+        tokens.push({ kind: "term", term, position });
+        continue;
+      }
+
+      const value = next === '"' ? readQuoted() : readWord();
+      if (!value) throw new QueryParseError(`missing value after "${field}:"`, position);
+      if (field === "is") {
+        const state = IS_VALUES[value.toLowerCase()];
+        if (!state) {
+          throw new QueryParseError(
+            `unknown "is:${value}" (expected is:completed, is:open or is:todo)`,
+            position
+          );
+        }
+        tokens.push({ kind: "term", term: { type: "is", value: state }, position });
+      } else if (field === "layout") {
+        if (!(LAYOUT_MODES as readonly string[]).includes(value)) {
+          throw new QueryParseError(
+            `unknown "layout:${value}" (expected one of ${LAYOUT_MODES.join(", ")})`,
+            position
+          );
+        }
+        tokens.push({ kind: "term", term: { type: "layout", value }, position });
+      } else {
+        // A path may be written unquoted, e.g. under:Work > Projects
+        let ref = value;
+        let step: RegExpMatchArray | null;
+        while (next !== '"' && (step = query.slice(i).match(/^\s*>\s*(?=[^\s()])/))) {
+          i += step[0].length;
+          ref += `${PATH_SEPARATOR}${readWord()}`;
+        }
+        tokens.push({ kind: "term", term: { type: "under", ref }, position });
+      }
+      continue;
+    }
+
+    const word = readWord();
+    if (word === "AND" || word === "&&") tokens.push({ kind: "and", position });
+    else if (word === "OR" || word === "||") tokens.push({ kind: "or", position });
+    else if (word === "NOT") tokens.push({ kind: "not", position });
+    else if (/^[#@][\w-]/.test(word)) {
+      // Trailing punctuation is not part of a tag ("#urgent," -> "#urgent")
+      const tag = word.match(/^[#@][\w-]+/)![0];
+      tokens.push({ kind: "term", term: { type: "tag", value: tag }, position });
+    } else tokens.push({ kind: "term", term: { type: "text", value: word }, position });
+  }
+
+  return tokens;
+}
+
+export function parseQuery(query: string): QueryNode {
+  const tokens = tokenize(query);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const endPosition = () => query.length;
+
+  const parseOr = (): QueryNode => {
+    let left = parseAnd();
+    while (peek()?.kind === "or") {
+      index++;
+      left = { type: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): QueryNode => {
+    let left = parseNot();
+    for (;;) {
+      const token = peek();
+      if (!token || token.kind === "or" || token.kind === ")") return left;
+      if (token.kind === "and") index++;
+      left = { type: "and", left, right: parseNot() };
+    }
+  };
+
+  const parseNot = (): QueryNode => {
+    if (peek()?.kind === "not") {
+      index++;
+      return { type: "not", operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek();
+    if (!token) throw new QueryParseError("expected a search term", endPosition());
+    if (token.kind === "term") {
+      index++;
+      return token.term;
+    }
+    if (token.kind === "(") {
+      index++;
+      const inner = parseOr();
+      const closing = peek();
+      if (closing?.kind !== ")") {
+        throw new QueryParseError('missing ")"', closing ? closing.position : endPosition());
+      }
+      index++;
+      return inner;
+    }
+    const label = token.kind === ")" ? '")"' : token.kind.toUpperCase();
+    throw new QueryParseError(`unexpected ${label}`, token.position);
+  };
+
+  if (tokens.length === 0) throw new QueryParseError("query is empty", 0);
+  const ast = parseOr();
+  const leftover = peek();
+  if (leftover) {
+    throw new QueryParseError(
+      leftover.kind === ")" ? 'unexpected ")"' : "unexpected input",
+      leftover.position
+    );
+  }
+  return ast;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Turn a parsed query into a predicate over the given snapshot
+export function compileQuery<T extends FlatNode>(
+  ast: QueryNode,
+  allNodes: T[],
+  options?: { searchName?: boolean; searchNote?: boolean; caseSensitive?: boolean }
+): (node: T) => boolean {
+  const { searchName = true, searchNote = true, caseSensitive = false } = options || {};
+  const parentOf = new Map(allNodes.map((n) => [n.id, n.parent_id || null]));
+
+  const fieldsFor = (node: T, field?: TextField): string[] => {
+    if (field) return [(field === "name" ? node.name : node.note) || ""];
+    const texts: string[] = [];
+    if (searchName) texts.push(node.name || "");
+    if (searchNote) texts.push(node.note || "");
+    return texts;
+  };
+
+  const isUnder = (node: T, ancestorId: string): boolean => {
+    const seen = new Set<string>();
+    let current = parentOf.get(node.id) ?? null;
+    while (current && !seen.has(current)) {
+      if (current === ancestorId) return true;
+      seen.add(current);
+      current = parentOf.get(current) ?? null;
+    }
+    return false;
+  };
+
+  const compile = (query: QueryNode): ((node: T) => boolean) => {
+    switch (query.type) {
+      case "and": {
+        const left = compile(query.left);
+        const right = compile(query.right);
+        return (node) => left(node) && right(node);
+      }
+      case "or": {
+        const left = compile(query.left);
+        const right = compile(query.right);
+        return (node) => left(node) || right(node);
+      }
+      case "not": {
+        const operand = compile(query.operand);
+        return (node) => !operand(node);
+      }
+      case "text": {
+        const needle = caseSensitive ? query.value : query.value.toLowerCase();
+        return (node) =>
+          fieldsFor(node, query.field).some((text) =>
+            (caseSensitive ? text : text.toLowerCase()).includes(needle)
+          );
+      }
+      case "regex": {
+        const regex = query.regex;
+        return (node) =>
+          fieldsFor(node, query.field).some((text) => {
+            regex.lastIndex = 0;
+            return regex.test(text);
+          });
+      }
+      case "tag": {
+        // Whole-tag match: not preceded or followed by more tag characters
+        const regex = new RegExp(`(^|[^\\w#@-])${escapeRegExp(query.value)}(?![\\w-])`, "i");
+        return (node) => regex.test(node.name || "") || regex.test(node.note || "");
+      }
+      case "is":
+        if (query.value === "completed") return (node) => isCompleted(node);
+        if (query.value === "open") return (node) => !isCompleted(node);
+        return (node) => layoutModeOf(node) === "todo";
+      case "layout":
+        return (node) => layoutModeOf(node) === query.value;
+      case "under": {
+        // Like every other node argument, the ancestor may be named by its path
+        const ancestorId = parentOf.has(query.ref)
+          ? query.ref
+          : resolvePath(query.ref, allNodes).id;
+        return (node) => isUnder(node, ancestorId);
+      }
+    }
+  };
+
+  return compile(ast);
+}
@@ -0,0 +1,99 @@
+// The outline exposed as MCP resources:
+//   workflowy://root           top-level nodes
+//   workflowy://node/{id}      a node with its children and grandchildren
+//   workflowy://target/{key}   a shortcut or system location from /targets
+
+import {
+  buildChildrenMap,
+  collectSubtree,
+  FlatNode,
+  isCompleted,
+  layoutModeOf,
+} from "./outline-format.js";
+import { breadcrumb } from "./paths.js";
+
+export const ROOT_URI = "workflowy://root";
+export const NODE_URI_TEMPLATE = "workflowy://node/{id}";
+
+export type ResourceRef =
+  { kind: "root" } | { kind: "node"; id: string } | { kind: "target"; key: string };
+
+export function targetUri(key: string): string {
+  return `workflowy://target/${encodeURIComponent(key)}`;
+}
+
+export function parseResourceUri(uri: string): ResourceRef | null {
+  if (uri === ROOT_URI) return { kind: "root" };
+  const match = uri.match(/^workflowy:\/\/(node|target)\/([^/]+)$/);
+  if (!match) return null;
+  const value = decodeURIComponent(match[2]);
+  return match[1] === "node" ? { kind: "node", id: value } : { kind: "target", key: value };
+}
+
+function bulletLine(node: FlatNode, indent: string): string {
+  const layout = layoutModeOf(node);
+  let marker = "";
+  if (layout === "todo" || isCompleted(node)) marker = isCompleted(node) ? "[x] " : "[ ] ";
+  const name = (node.name || "").split("\n")[0];
+  return `${indent}- ${marker}${name} (id: ${node.id})`;
+}
+
+// Markdown listing of nodes and their children down to the given depth
+export function renderListing(nodes: FlatNode[], roots: FlatNode[], depth: number): string {
+  const children = buildChildrenMap(nodes);
+  const lines: string[] = [];
+  const visit = (node: FlatNode, level: number) => {
+    lines.push(bulletLine(node, "  ".repeat(level)));
+    const kids = children.get(node.id) || [];
+    if (level + 1 >= depth) {
+      if (kids.length > 0) lines.push(`${"  ".repeat(level + 1)}- … ${kids.length} more`);
+      return;
+    }
+    for (const child of kids) visit(child, level + 1);
+  };
+  for (const root of roots) visit(root, 0);
+  return lines.join("\n");
+}
+
+export function renderRootResource(nodes: FlatNode[]): string {
+  const roots = buildChildrenMap(nodes).get(null) || [];
+  return `# Workflowy\n\n${roots.length > 0 ? renderListing(nodes, roots, 1) : "(empty)"}\n`;
+}
+
+export function renderNodeResource(nodes: FlatNode[], id: string): string {
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  const node = nodeMap.get(id);
+  if (!node) throw new Error(`Node ${id} not found`);
+  const lines = [`# ${node.name || "(untitled)"}`, ""];
+  const path = breadcrumb(id, nodeMap);
+  lines.push(`Path: ${path || "(top level)"}`);
+  lines.push(`ID: ${id}, layout: ${layoutModeOf(node)}${isCompleted(node) ? ", completed" : ""}`);
+  if (node.note) lines.push("", node.note);
+  const kids = buildChildrenMap(nodes).get(id) || [];
+  lines.push("", "## Children", "", kids.length > 0 ? renderListing(nodes, kids, 2) : "(none)");
+  return lines.join("\n") + "\n";
+}
+
+// A compact fingerprint of what a resource shows, to tell whether it changed
+export function resourceSignature(nodes: FlatNode[], ref: ResourceRef): string | null {
+  let subset: FlatNode[];
+  if (ref.kind === "root") {
+    subset = buildChildrenMap(nodes).get(null) || [];
+  } else if (ref.kind === "node") {
+    if (!nodes.some((n) => n.id === ref.id)) return null;
+    subset = collectSubtree(nodes, ref.id);
+  } else {
+    return null;
+  }
+  return JSON.stringify(
+    subset.map((n) => [
+      n.id,
+      n.name,
+      n.note,
+      n.parent_id,
+      n.priority,
+      isCompleted(n),
+      layoutModeOf(n),
+    ])
+  );
+}
@@ -0,0 +1,287 @@
+// Keeps large read results within what a model can take in. List results can
+// be projected to chosen fields, rendered compactly (one line per node),
+// paged with an opaque cursor, and cut to an approximate size budget. A page
+// that stops early says what it left out and hands back a cursor to continue.
+// A node tree is cut by depth instead, dropping its deepest levels first.
+
+import { createHash } from "node:crypto";
+import { ToolInputError } from "./schema.js";
+
+// Arguments every shaped tool takes, on top of its own
+export interface ShapeOptions {
+  fields?: string[];
+  output?: "json" | "compact";
+  cursor?: string;
+  pageSize?: number;
+  maxChars?: number;
+  maxTokens?: number;
+}
+
+export const SHAPING_KEYS = ["fields", "output", "cursor", "pageSize", "maxChars", "maxTokens"];
+
+// About 10k tokens; the same cap the prompts put on an embedded subtree
+export const DEFAULT_MAX_CHARS = 40000;
+
+// Rough size of a token in English text and JSON
+const CHARS_PER_TOKEN = 4;
+
+export interface ShapeableItem {
+  id: string;
+  name?: string | null;
+  breadcrumb?: string;
+}
+
+export interface ShapeableTree extends ShapeableItem {
+  children?: ShapeableTree[];
+}
+
+export interface ListShape<T> {
+  tool: string;
+  // The call's arguments, so a cursor is only accepted for the same call
+  args: Record<string, unknown>;
+  items: T[];
+  options: ShapeOptions;
+  // The tool's JSON result around a page of items, e.g. { results: page }
+  envelope: (page: Partial<T>[]) => Record<string, unknown>;
+  // Heading of the compact rendering, e.g. 'Search results for "docs"'
+  title: string;
+  // Text before the name in a compact line, e.g. "[x] " or "moved: "
+  label?: (item: T) => string;
+  // For items that are not nodes: the field a projection always keeps
+  // (instead of id), and the compact line (instead of name | breadcrumb | id)
+  key?: string;
+  line?: (item: T) => string;
+}
+
+export function budgetOf(options: ShapeOptions): number {
+  const limits = [options.maxChars, options.maxTokens && options.maxTokens * CHARS_PER_TOKEN];
+  const given = limits.filter((limit): limit is number => typeof limit === "number");
+  return given.length > 0 ? Math.min(...given) : DEFAULT_MAX_CHARS;
+}
+
+// Arguments compared in a stable key order, without the shaping ones
+function callHash(tool: string, args: Record<string, unknown>): string {
+  const stable = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(stable);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((key) => [key, stable((value as Record<string, unknown>)[key])])
+      );
+    }
+    return value;
+  };
+  const rest = Object.fromEntries(
+    Object.entries(args).filter(([key]) => !SHAPING_KEYS.includes(key))
+  );
+  return createHash("sha256")
+    .update(JSON.stringify([tool, stable(rest)]))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+function encodeCursor(offset: number, hash: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, h: hash })).toString("base64url");
+}
+
+function decodeCursor(tool: string, cursor: string, hash: string): number {
+  let decoded: { o?: unknown; h?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    decoded = {};
+  }
+  if (typeof decoded.o !== "number" || !Number.isInteger(decoded.o) || decoded.o < 0) {
+    throw new ToolInputError(tool, [
+      { field: "cursor", message: "is not a cursor this server issued" },
+    ]);
+  }
+  if (decoded.h !== hash) {
+    throw new ToolInputError(tool, [
+      {
+        field: "cursor",
+        message: "belongs to a call with different arguments; repeat that call's arguments with it",
+      },
+    ]);
+  }
+  return decoded.o;
+}
+
+function project<T extends object>(item: T, fields?: string[], key = "id"): Partial<T> {
+  if (!fields) return item;
+  const keep = new Set([key, ...fields]);
+  return Object.fromEntries(Object.entries(item).filter(([key]) => keep.has(key))) as Partial<T>;
+}
+
+// One line per item: line breaks inside a name or breadcrumb become spaces
+function compactLine<T extends ShapeableItem>(item: T, label?: (item: T) => string): string {
+  return [
+    `${label ? label(item) : ""}${item.name ?? ""}`,
+    item.breadcrumb || "(top level)",
+    item.id,
+  ]
+    .join(" | ")
+    .replace(/\s*\r?\n\s*/g, " ");
+}
+
+// Size of an item once nested two levels deep in pretty-printed JSON
+function jsonSize(item: unknown): number {
+  const text = JSON.stringify(item, null, 2);
+  return text.length + 4 * (text.split("\n").length - 1) + 6;
+}
+
+// Shorten the longest string in an item that is too big to fit on its own
+function shrinkToFit<T>(item: Partial<T>, size: (item: Partial<T>) => number, room: number) {
+  const over = size(item) - room;
+  if (over <= 0) return item;
+  const longest = Object.entries(item as Record<string, unknown>)
+    .filter(([, value]) => typeof value === "string")
+    .sort(([, a], [, b]) => (b as string).length - (a as string).length)[0];
+  if (!longest) return item;
+  const [key, value] = longest as [string, string];
+  const keep = Math.max(0, value.length - over - 40);
+  return {
+    ...item,
+    [key]: `${value.slice(0, keep)}… [${value.length - keep} characters omitted]`,
+  } as Partial<T>;
+}
+
+export function shapeList<T extends object>(shape: ListShape<T>): string {
+  const { tool, args, items, options, envelope, title, label, key } = shape;
+  const line = (item: T) =>
+    shape.line
+      ? shape.line(item).replace(/\s*\r?\n\s*/g, " ")
+      : compactLine(item as T & ShapeableItem, label);
+  const hash = callHash(tool, args);
+  const offset = options.cursor ? decodeCursor(tool, options.cursor, hash) : 0;
+  const compact = options.output === "compact";
+  const budget = budgetOf(options);
+  const pageSize = options.pageSize ?? items.length;
+
+  const size = (item: Partial<T>) => (compact ? line(item as T).length + 1 : jsonSize(item));
+  // Room for the envelope and the paging fields around the items
+  let used = compact ? title.length + 200 : JSON.stringify(envelope([]), null, 2).length + 200;
+
+  const page: Partial<T>[] = [];
+  let stoppedByBudget = false;
+  for (let i = offset; i < items.length && page.length < pageSize; i++) {
+    let item: Partial<T> = compact ? items[i] : project(items[i], options.fields, key);
+    // The first item of a page always goes in, cut down if need be, so
+    // paging through always makes progress
+    if (page.length === 0) item = shrinkToFit(item, size, budget - used);
+    const itemSize = size(item);
+    if (page.length > 0 && used + itemSize > budget) {
+      stoppedByBudget = true;
+      break;
+    }
+    page.push(item);
+    used += itemSize;
+  }
+
+  const end = offset + page.length;
+  const remaining = items.length - end;
+  const paging: Record<string, unknown> = {
+    page: { offset, returned: page.length, total: items.length },
+  };
+  if (remaining > 0) {
+    paging.nextCursor = encodeCursor(end, hash);
+    paging.omitted = stoppedByBudget
+      ? `${remaining} more item(s) did not fit in about ${budget} characters; call again with nextCursor, fewer fields, or output 'compact'`
+      : `${remaining} more item(s); call again with nextCursor`;
+  }
+
+  if (!compact) {
+    return JSON.stringify({ ...envelope(page), ...paging }, null, 2);
+  }
+  const lines = [
+    `${title}: ${page.length === items.length ? items.length : `${offset + 1}-${end} of ${items.length}`}`,
+    ...page.map((item) => line(item as T)),
+  ];
+  if (remaining > 0) {
+    lines.push(`… ${paging.omitted}`, `nextCursor: ${paging.nextCursor}`);
+  }
+  return lines.join("\n");
+}
+
+// Depth of a tree below its root, which is 0
+function treeDepth(node: ShapeableTree): number {
+  return Math.max(0, ...(node.children || []).map((child) => treeDepth(child) + 1));
+}
+
+// A tree projected to the chosen fields (children always stay) and cut below
+// the given depth
+function pruneTree(node: ShapeableTree, depth: number, fields?: string[]): ShapeableTree {
+  const { children, ...rest } = node;
+  return {
+    ...project(rest, fields),
+    ...(children && depth > 0
+      ? { children: children.map((child) => pruneTree(child, depth - 1, fields)) }
+      : {}),
+  } as ShapeableTree;
+}
+
+function compactTree(node: ShapeableTree, level = 0): string[] {
+  const text = `${"  ".repeat(level)}${node.name ?? ""} | ${node.id}`.replace(/\s*\r?\n\s*/g, " ");
+  return [text, ...(node.children || []).flatMap((child) => compactTree(child, level + 1))];
+}
+
+// A node with its descendants within the budget: levels are dropped from the
+// bottom until the rest fits, and the result says how many were left out
+export function shapeTree(root: ShapeableTree, options: ShapeOptions): string {
+  const budget = budgetOf(options);
+  const fullDepth = treeDepth(root);
+  const render = (depth: number, omitted?: string) => {
+    const tree = pruneTree(root, depth, options.fields);
+    if (options.output === "compact") {
+      return [...compactTree(tree), ...(omitted ? [`… ${omitted}`] : [])].join("\n");
+    }
+    return JSON.stringify(omitted ? { ...tree, omitted } : tree, null, 2);
+  };
+
+  let depth = fullDepth;
+  let text = render(depth);
+  while (text.length > budget && depth > 0) {
+    depth--;
+    text = render(
+      depth,
+      `levels below depth ${depth} did not fit in about ${budget} characters; call again on a child node, with fewer fields, or with output 'compact'`
+    );
+  }
+  return text;
+}
+
+// Cut rendered text (Markdown, plain text, OPML) to the budget at a line
+// boundary, closing any OPML elements left open, with a note of what was cut
+export function truncateText(text: string, options: ShapeOptions, opml = false): string {
+  const budget = budgetOf(options);
+  if (text.length <= budget) return text;
+
+  const lines = text.split("\n");
+  const kept: string[] = [];
+  let used = 0;
+  let depth = 0;
+  for (const line of lines) {
+    if (used + line.length + 1 > budget - 300) break;
+    kept.push(line);
+    used += line.length + 1;
+    if (opml) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith("</outline")) depth--;
+      else if (trimmed.startsWith("<outline") && !trimmed.endsWith("/>")) depth++;
+    }
+  }
+  const omitted = lines.length - kept.length;
+  const note = `truncated: ${omitted} more line(s) did not fit in about ${budget} characters; export a smaller subtree with nodeId, or use format 'json' with a cursor`;
+  if (!opml) return [...kept, `… ${note}`].join("\n");
+
+  const closers: string[] = [];
+  for (; depth > 0; depth--) closers.push(`${"  ".repeat(depth + 1)}</outline>`);
+  const bodyOpen = kept.some((line) => line.trim() === "<body>");
+  return [
+    ...kept,
+    ...closers,
+    `    <!-- ${note} -->`,
+    ...(bodyOpen ? ["  </body>", "</opml>"] : []),
+  ].join("\n");
+}
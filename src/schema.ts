@@ -0,0 +1,286 @@
+// Runtime schemas for tool arguments. A schema checks a value and describes
+// itself as JSON Schema, so the inputSchema a tool advertises and the checks
+// its arguments get come from the same definition. Infer<> gives the
+// TypeScript type of a value that passed.
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ValidationIssue {
+  // Path to the offending value, e.g. "layoutMode" or "operations[2].nodeId"
+  field: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  toJsonSchema(): JsonSchema;
+  // Push an issue for each problem with value, found at field
+  check(value: unknown, field: string, issues: ValidationIssue[]): void;
+  // Never set; carries T for Infer<>
+  readonly _type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class ToolInputError extends Error {
+  constructor(
+    public tool: string,
+    public issues: ValidationIssue[]
+  ) {
+    super(
+      `Invalid arguments for ${tool}: ` +
+        issues.map((issue) => `${issue.field || "arguments"} ${issue.message}`).join("; ")
+    );
+    this.name = "ToolInputError";
+  }
+}
+
+// Arguments that passed their schema but cannot be acted on, such as a node ID
+// missing from the outline. Thrown where the tool is not known; the server
+// reports it as a ToolInputError for the tool being called.
+export class ArgumentError extends Error {
+  constructor(public issues: ValidationIssue[]) {
+    super(issues.map((issue) => `${issue.field} ${issue.message}`).join("; "));
+    this.name = "ArgumentError";
+  }
+}
+
+interface Described {
+  description?: string;
+}
+
+function withDescription(schema: JsonSchema, options: Described): JsonSchema {
+  return options.description ? { ...schema, description: options.description } : schema;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "object" ? "an object" : `a ${typeof value}`;
+}
+
+export function string(options: Described & { minLength?: number } = {}): Schema<string> {
+  return {
+    toJsonSchema: () =>
+      withDescription(
+        { type: "string", ...(options.minLength ? { minLength: options.minLength } : {}) },
+        options
+      ),
+    check(value, field, issues) {
+      if (typeof value !== "string") {
+        issues.push({ field, message: `must be a string, not ${describeType(value)}` });
+      } else if (options.minLength && value.length < options.minLength) {
+        issues.push({ field, message: "must not be empty" });
+      }
+    },
+  };
+}
+
+// A string limited to a fixed set of values
+export function enumOf<const V extends readonly string[]>(
+  values: V,
+  options: Described = {}
+): Schema<V[number]> {
+  return {
+    toJsonSchema: () => withDescription({ type: "string", enum: [...values] }, options),
+    check(value, field, issues) {
+      if (typeof value !== "string" || !values.includes(value)) {
+        issues.push({ field, message: `must be one of ${values.join(", ")}` });
+      }
+    },
+  };
+}
+
+export function number(
+  options: Described & { integer?: boolean; minimum?: number; maximum?: number } = {}
+): Schema<number> {
+  const { integer, minimum, maximum } = options;
+  return {
+    toJsonSchema: () =>
+      withDescription(
+        {
+          type: integer ? "integer" : "number",
+          ...(minimum !== undefined ? { minimum } : {}),
+          ...(maximum !== undefined ? { maximum } : {}),
+        },
+        options
+      ),
+    check(value, field, issues) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({ field, message: `must be a number, not ${describeType(value)}` });
+      } else if (integer && !Number.isInteger(value)) {
+        issues.push({ field, message: "must be a whole number" });
+      } else if (minimum !== undefined && value < minimum) {
+        issues.push({ field, message: `must be at least ${minimum}` });
+      } else if (maximum !== undefined && value > maximum) {
+        issues.push({ field, message: `must be at most ${maximum}` });
+      }
+    },
+  };
+}
+
+export function boolean(options: Described = {}): Schema<boolean> {
+  return {
+    toJsonSchema: () => withDescription({ type: "boolean" }, options),
+    check(value, field, issues) {
+      if (typeof value !== "boolean") {
+        issues.push({ field, message: `must be true or false, not ${describeType(value)}` });
+      }
+    },
+  };
+}
+
+// Any one of several schemas; plain types collapse to a JSON Schema type list
+export function union<const S extends readonly Schema<unknown>[]>(
+  schemas: S,
+  options: Described = {}
+): Schema<Infer<S[number]>> {
+  return {
+    toJsonSchema() {
+      const members = schemas.map((schema) => schema.toJsonSchema());
+      const plain = members.every((member) => Object.keys(member).join() === "type");
+      return withDescription(
+        plain ? { type: members.map((member) => member.type) } : { anyOf: members },
+        options
+      );
+    },
+    check(value, field, issues) {
+      const attempts = schemas.map((schema) => {
+        const found: ValidationIssue[] = [];
+        schema.check(value, field, found);
+        return found;
+      });
+      if (attempts.some((found) => found.length === 0)) return;
+      const types = schemas.map((schema) => String(schema.toJsonSchema().type ?? ""));
+      const expected =
+        types.slice(0, -1).join(", ") + (types.length > 1 ? " or " : "") + types.at(-1);
+      issues.push({
+        field,
+        message: types.every(Boolean)
+          ? `must be a ${expected}, not ${describeType(value)}`
+          : attempts[0][0].message,
+      });
+    },
+  };
+}
+
+export function array<T>(
+  items: Schema<T>,
+  options: Described & { minItems?: number } = {}
+): Schema<T[]> {
+  return {
+    toJsonSchema: () =>
+      withDescription(
+        {
+          type: "array",
+          items: items.toJsonSchema(),
+          ...(options.minItems ? { minItems: options.minItems } : {}),
+        },
+        options
+      ),
+    check(value, field, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ field, message: `must be an array, not ${describeType(value)}` });
+        return;
+      }
+      if (options.minItems && value.length < options.minItems) {
+        issues.push({ field, message: `must have at least ${options.minItems} item(s)` });
+      }
+      value.forEach((item, index) => items.check(item, `${field}[${index}]`, issues));
+    },
+  };
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const joinField = (field: string, key: string) => (field ? `${field}.${key}` : key);
+
+// An object with any string keys, every value matching one schema
+export function record<T>(values: Schema<T>, options: Described = {}): Schema<Record<string, T>> {
+  return {
+    toJsonSchema: () =>
+      withDescription({ type: "object", additionalProperties: values.toJsonSchema() }, options),
+    check(value, field, issues) {
+      if (!isPlainObject(value)) {
+        issues.push({ field, message: `must be an object, not ${describeType(value)}` });
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        values.check(item, joinField(field, key), issues);
+      }
+    },
+  };
+}
+
+type Properties = Record<string, Schema<unknown>>;
+
+type ObjectType<P extends Properties, R extends keyof P> = {
+  [K in R]: Infer<P[K]>;
+} & {
+  [K in Exclude<keyof P, R>]?: Infer<P[K]>;
+};
+
+export interface ObjectSchema<P extends Properties, R extends keyof P> extends Schema<
+  ObjectType<P, R>
+> {
+  readonly properties: P;
+  readonly required: readonly R[];
+  // The same object with more optional properties
+  extend<E extends Properties>(extra: E): ObjectSchema<P & E, R>;
+}
+
+// An object with known properties. Unknown properties are rejected, so a
+// misspelt argument is reported instead of silently ignored.
+export function object<const P extends Properties, const R extends keyof P & string = never>(
+  properties: P,
+  options: Described & { required?: readonly R[] } = {}
+): ObjectSchema<P, R> {
+  const required = options.required ?? [];
+  return {
+    properties,
+    required,
+    extend: (extra) => object({ ...properties, ...extra }, { ...options, required }),
+    toJsonSchema() {
+      const json: JsonSchema = {
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(properties).map(([key, schema]) => [key, schema.toJsonSchema()])
+        ),
+        additionalProperties: false,
+      };
+      if (required.length > 0) json.required = [...required];
+      return withDescription(json, options);
+    },
+    check(value, field, issues) {
+      if (!isPlainObject(value)) {
+        issues.push({ field, message: `must be an object, not ${describeType(value)}` });
+        return;
+      }
+      for (const key of required) {
+        if (value[key] === undefined)
+          issues.push({ field: joinField(field, key), message: "is required" });
+      }
+      for (const [key, item] of Object.entries(value)) {
+        if (!Object.hasOwn(properties, key)) {
+          const known = Object.keys(properties);
+          issues.push({
+            field: joinField(field, key),
+            message: known.length
+              ? `is not a known argument (expected ${known.join(", ")})`
+              : "is not a known argument (this takes none)",
+          });
+        } else if (item !== undefined) {
+          properties[key].check(item, joinField(field, key), issues);
+        }
+      }
+    },
+  };
+}
+
+// Check value against schema, throwing a ToolInputError that lists every problem
+export function validate<T>(tool: string, schema: Schema<T>, value: unknown): T {
+  const issues: ValidationIssue[] = [];
+  schema.check(value, "", issues);
+  if (issues.length > 0) throw new ToolInputError(tool, issues);
+  return value as T;
+}
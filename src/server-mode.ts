@@ -0,0 +1,114 @@
+// Server modes that limit what agents may change:
+//   full      every tool is available (default)
+//   readonly  mutating tools are hidden and rejected
+//   confirm   destructive and bulk tools first return a preview and a
+//             one-time token, and only run when called again with it
+
+import { randomBytes } from "node:crypto";
+
+export type ServerMode = "full" | "readonly" | "confirm";
+
+const SERVER_MODES: ServerMode[] = ["full", "readonly", "confirm"];
+
+// Tools that change the outline
+export const MUTATING_TOOLS = new Set([
+  "workflowy_create_node",
+  "workflowy_import_outline",
+  "workflowy_update_node",
+  "workflowy_delete_node",
+  "workflowy_move_node",
+  "workflowy_sort_children",
+  "workflowy_complete_node",
+  "workflowy_uncomplete_node",
+  "workflowy_restore_deleted",
+  "workflowy_undo",
+  "workflowy_batch",
+  "workflowy_rename_tag",
+  "workflowy_copy_subtree",
+  "workflowy_instantiate_template",
+]);
+
+// Tools that need a confirmation token in confirm mode
+export const CONFIRM_TOOLS = new Set([
+  "workflowy_delete_node",
+  "workflowy_move_node",
+  "workflowy_sort_children",
+  "workflowy_import_outline",
+  "workflowy_batch",
+  "workflowy_rename_tag",
+  "workflowy_copy_subtree",
+  "workflowy_instantiate_template",
+  "workflowy_undo",
+]);
+
+// Tools that only preview unless called with dryRun: false
+export const DRY_RUN_TOOLS = new Set(["workflowy_rename_tag", "workflowy_sort_children"]);
+
+// Whether a call needs a token in confirm mode. A dry run changes nothing,
+// so it is a preview already.
+export function needsConfirmation(toolName: string, args: Record<string, unknown>): boolean {
+  if (!CONFIRM_TOOLS.has(toolName)) return false;
+  return !DRY_RUN_TOOLS.has(toolName) || args.dryRun === false;
+}
+
+// --mode=<mode>, --read-only or --confirm on the command line win over
+// the WORKFLOWY_MODE environment variable
+export function parseServerMode(argv: string[], env: NodeJS.ProcessEnv): ServerMode {
+  let mode = env.WORKFLOWY_MODE;
+  for (const arg of argv) {
+    if (arg === "--read-only" || arg === "--readonly") mode = "readonly";
+    else if (arg === "--confirm") mode = "confirm";
+    else if (arg.startsWith("--mode=")) mode = arg.slice("--mode=".length);
+  }
+  if (!mode) return "full";
+  const normalized = mode.toLowerCase().replace(/[-_]/g, "") as ServerMode;
+  if (!SERVER_MODES.includes(normalized)) {
+    throw new Error(`Unknown server mode "${mode}" (expected ${SERVER_MODES.join(", ")})`);
+  }
+  return normalized;
+}
+
+// Arguments compared in a stable key order, ignoring the token itself
+function fingerprint(toolName: string, args: Record<string, unknown>): string {
+  const { confirmationToken: _token, ...rest } = args;
+  const sorted = Object.keys(rest)
+    .sort()
+    .map((key) => [key, rest[key]]);
+  return JSON.stringify([toolName, sorted]);
+}
+
+// One-time tokens binding a confirmation to the exact call that was previewed
+export class ConfirmationTokens {
+  private pending = new Map<string, { fingerprint: string; expiresAt: number }>();
+
+  constructor(private ttlMs = 5 * 60 * 1000) {}
+
+  issue(toolName: string, args: Record<string, unknown>): string {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+    const token = randomBytes(8).toString("hex");
+    this.pending.set(token, {
+      fingerprint: fingerprint(toolName, args),
+      expiresAt: now + this.ttlMs,
+    });
+    return token;
+  }
+
+  // Returns why the token is not valid for this call, or null if it is.
+  // A valid token is used up.
+  consume(token: string, toolName: string, args: Record<string, unknown>): string | null {
+    const entry = this.pending.get(token);
+    if (!entry) return "unknown or already used confirmation token";
+    if (entry.expiresAt <= Date.now()) {
+      this.pending.delete(token);
+      return "confirmation token has expired";
+    }
+    if (entry.fingerprint !== fingerprint(toolName, args)) {
+      return "confirmation token was issued for a different call; the arguments must match the preview";
+    }
+    this.pending.delete(token);
+    return null;
+  }
+}
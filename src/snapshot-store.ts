@@ -0,0 +1,70 @@
+// On-disk persistence of the /nodes-export snapshot, so a restarted server
+// has something to serve while the export rate limit is in effect
+
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { WorkflowyNode } from "./outline-format.js";
+
+const SNAPSHOT_VERSION = 1;
+
+export interface StoredSnapshot {
+  timestamp: number;
+  nodes: WorkflowyNode[];
+}
+
+export function defaultCacheDir(): string {
+  return process.env.WORKFLOWY_CACHE_DIR || join(homedir(), ".cache", "workflowy-mcp-server");
+}
+
+// Files are keyed by a hash of the API key so accounts never mix
+export function accountFilePath(cacheDir: string, apiKey: string, kind: string): string {
+  const keyHash = createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
+  return join(cacheDir, `${kind}-${keyHash}.json`);
+}
+
+export class SnapshotStore {
+  readonly path: string;
+
+  constructor(cacheDir: string, apiKey: string) {
+    this.path = accountFilePath(cacheDir, apiKey, "snapshot");
+  }
+
+  // Synchronous so the snapshot is in place before the first tool call
+  load(): StoredSnapshot | null {
+    try {
+      const stored = JSON.parse(readFileSync(this.path, "utf8"));
+      if (
+        stored?.version !== SNAPSHOT_VERSION ||
+        typeof stored.timestamp !== "number" ||
+        !Array.isArray(stored.nodes)
+      ) {
+        console.error(`[Cache] Ignoring unrecognised snapshot file ${this.path}`);
+        return null;
+      }
+      return { timestamp: stored.timestamp, nodes: stored.nodes };
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.error(`[Cache] Could not read snapshot file ${this.path}: ${error.message}`);
+      }
+      return null;
+    }
+  }
+
+  // Write to a temp file and rename, so a crash never leaves a torn snapshot.
+  // The file holds the whole outline, so only the owner may read it.
+  async save(snapshot: StoredSnapshot): Promise<void> {
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+    try {
+      await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+      await writeFile(tempPath, JSON.stringify({ version: SNAPSHOT_VERSION, ...snapshot }), {
+        mode: 0o600,
+      });
+      await rename(tempPath, this.path);
+    } catch (error: any) {
+      console.error(`[Cache] Could not write snapshot file ${this.path}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+// Reordering the children of a node. The new order comes from a sort key or
+// an explicit list of IDs. The children on the longest run already in the
+// right relative order stay where they are and each of the others is moved
+// once, which is the fewest moves that produce the new order.
+
+import { FlatNode, isCompleted, timestampMs } from "./outline-format.js";
+import { plainName } from "./paths.js";
+import { ArgumentError } from "./schema.js";
+import { dayKey, parseDueDate } from "./tasks.js";
+
+export const SORT_KEYS = ["name", "completed", "due", "created", "modified", "order"] as const;
+
+export type SortKey = (typeof SORT_KEYS)[number];
+
+export interface SortOptions {
+  by: SortKey;
+  descending?: boolean;
+  // Child IDs in their new order, for by: "order"
+  order?: string[];
+}
+
+export interface SortMove {
+  nodeId: string;
+  name: string;
+  // Position among the other children, as moveNode takes it
+  priority: number;
+}
+
+export interface SortPlan {
+  order: { id: string; name: string; from: number; to: number }[];
+  moves: SortMove[];
+}
+
+// Natural order: "Item 2" before "Item 10", case and accents ignored
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+// The value a child sorts on; null sorts last in either direction
+function sortValue(node: FlatNode, by: SortKey, today: string): string | number | null {
+  switch (by) {
+    case "name":
+      return plainName(node.name);
+    case "completed":
+      return isCompleted(node) ? 1 : 0;
+    case "due":
+      return parseDueDate(node, today)?.date ?? null;
+    case "created":
+      return timestampMs(node.createdAt);
+    case "modified":
+      return timestampMs(node.modifiedAt);
+    default:
+      return null;
+  }
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === "string" && typeof b === "string") return collator.compare(a, b);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Children in their new order. Ties, and children not named in an explicit
+// order, keep their current relative order.
+export function sortedChildren<T extends FlatNode>(
+  children: T[],
+  options: SortOptions,
+  today = dayKey(new Date())
+): T[] {
+  const { by, descending = false, order = [] } = options;
+  if (by === "order") {
+    const ids = new Set(children.map((child) => child.id));
+    const strangers = order.filter((id) => !ids.has(id));
+    if (strangers.length > 0) {
+      throw new ArgumentError([
+        {
+          field: "order",
+          message: `lists IDs that are not children of this node: ${strangers.join(", ")}`,
+        },
+      ]);
+    }
+    const rank = new Map([...new Set(order)].map((id, index) => [id, index]));
+    const listed = children
+      .filter((child) => rank.has(child.id))
+      .sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+    return [...listed, ...children.filter((child) => !rank.has(child.id))];
+  }
+
+  const keyed = children.map((child, index) => ({
+    child,
+    index,
+    value: sortValue(child, by, today),
+  }));
+  keyed.sort((a, b) => {
+    if (a.value === null || b.value === null) {
+      return a.value === b.value ? a.index - b.index : a.value === null ? 1 : -1;
+    }
+    const compared = compareValues(a.value, b.value);
+    return (descending ? -compared : compared) || a.index - b.index;
+  });
+  return keyed.map(({ child }) => child);
+}
+
+// Positions in target order of the longest increasing run of current
+// positions, i.e. the children that need not move
+function longestIncreasing(positions: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous = new Array<number>(positions.length).fill(-1);
+  positions.forEach((position, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (positions[tails[mid]] < position) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[i] = tails[low - 1];
+    tails[low] = i;
+  });
+  const kept = new Set<number>();
+  for (let i = tails.at(-1) ?? -1; i >= 0; i = previous[i]) kept.add(i);
+  return kept;
+}
+
+// The moves that turn the current order into the target order. Working
+// through the target order, each child that moves goes straight after the
+// child before it, so everything placed so far stays in order.
+export function planSort<T extends FlatNode>(current: T[], target: T[]): SortPlan {
+  const from = new Map(current.map((child, index) => [child.id, index]));
+  const kept = longestIncreasing(target.map((child) => from.get(child.id)!));
+
+  const siblings = current.map((child) => child.id);
+  const moves: SortMove[] = [];
+  target.forEach((child, i) => {
+    if (kept.has(i)) return;
+    siblings.splice(siblings.indexOf(child.id), 1);
+    const priority = i === 0 ? 0 : siblings.indexOf(target[i - 1].id) + 1;
+    siblings.splice(priority, 0, child.id);
+    moves.push({ nodeId: child.id, name: plainName(child.name), priority });
+  });
+
+  return {
+    order: target.map((child, to) => ({
+      id: child.id,
+      name: plainName(child.name),
+      from: from.get(child.id)!,
+      to,
+    })),
+    moves,
+  };
+}
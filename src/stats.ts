@@ -0,0 +1,200 @@
+// Size and shape of the outline, as an overview for pruning it: node counts,
+// depth, the widest parents and largest subtrees, task completion per
+// top-level branch, and subtrees where nothing has been modified for a while.
+// Depth counts from the scope: its children (or the top-level nodes) are 1.
+
+import { buildChildrenMap, FlatNode, isCompleted, timestampMs } from "./outline-format.js";
+import { breadcrumb, plainName } from "./paths.js";
+import { ArgumentError } from "./schema.js";
+import { isTask } from "./tasks.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StatsOptions {
+  scopeId?: string | null;
+  // A subtree is stale when none of its nodes was modified in this many days
+  staleDays?: number;
+  // Length of each ranked list
+  limit?: number;
+}
+
+export interface NodeSummary {
+  id: string;
+  name: string;
+  breadcrumb: string;
+}
+
+export interface TaskCounts {
+  total: number;
+  completed: number;
+  open: number;
+  percentComplete: number;
+}
+
+export interface BranchStats extends NodeSummary {
+  nodeCount: number;
+  tasks: TaskCounts;
+}
+
+export interface StaleSubtree extends NodeSummary {
+  nodeCount: number;
+  lastModified: string;
+  daysSinceModified: number;
+}
+
+export interface OutlineStats {
+  scope: NodeSummary | null;
+  counts: {
+    nodes: number;
+    completed: number;
+    withNotes: number;
+    tasks: TaskCounts;
+  };
+  depth: { max: number; average: number };
+  widestParents: (NodeSummary & { childCount: number })[];
+  largestSubtrees: (NodeSummary & { descendantCount: number })[];
+  branches: BranchStats[];
+  stale: {
+    days: number;
+    cutoff: string;
+    // Nodes not modified since the cutoff, whatever their descendants did
+    nodeCount: number;
+    // Topmost subtrees with no node modified since the cutoff, largest first
+    subtreeCount: number;
+    subtrees: StaleSubtree[];
+  };
+}
+
+interface Visited {
+  node: FlatNode;
+  depth: number;
+  descendants: number;
+  tasks: number;
+  completedTasks: number;
+  // Latest modification anywhere in the subtree, in ms
+  lastModified: number | null;
+}
+
+function taskCounts(total: number, completed: number): TaskCounts {
+  return {
+    total,
+    completed,
+    open: total - completed,
+    percentComplete: total ? Math.round((completed / total) * 100) : 0,
+  };
+}
+
+export function outlineStats(
+  nodes: FlatNode[],
+  options: StatsOptions = {},
+  now = Date.now()
+): OutlineStats {
+  const { scopeId = null, staleDays = 180, limit = 10 } = options;
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  const children = buildChildrenMap(nodes);
+  const scope = scopeId ? nodeMap.get(scopeId) : undefined;
+  if (scopeId && !scope) {
+    throw new ArgumentError([{ field: "nodeId", message: `${scopeId} was not found` }]);
+  }
+
+  const summary = (node: FlatNode): NodeSummary => ({
+    id: node.id,
+    name: plainName(node.name),
+    breadcrumb: breadcrumb(node.id, nodeMap),
+  });
+
+  // Every node in the scope in outline order, with its subtree totals
+  const visited: Visited[] = [];
+  const visit = (node: FlatNode, depth: number): Visited => {
+    const task = isTask(node);
+    const entry: Visited = {
+      node,
+      depth,
+      descendants: 0,
+      tasks: task ? 1 : 0,
+      completedTasks: task && isCompleted(node) ? 1 : 0,
+      lastModified: timestampMs(node.modifiedAt),
+    };
+    visited.push(entry);
+    for (const child of children.get(node.id) || []) {
+      const sub = visit(child, depth + 1);
+      entry.descendants += 1 + sub.descendants;
+      entry.tasks += sub.tasks;
+      entry.completedTasks += sub.completedTasks;
+      if (sub.lastModified !== null) {
+        entry.lastModified = Math.max(entry.lastModified ?? 0, sub.lastModified);
+      }
+    }
+    return entry;
+  };
+  const branches = (children.get(scopeId) || []).map((node) => visit(node, 1));
+
+  const tasks = branches.reduce((sum, branch) => sum + branch.tasks, 0);
+  const completedTasks = branches.reduce((sum, branch) => sum + branch.completedTasks, 0);
+  const depthTotal = visited.reduce((sum, entry) => sum + entry.depth, 0);
+  const maxDepth = visited.reduce((max, entry) => Math.max(max, entry.depth), 0);
+
+  const childCount = (entry: Visited) => (children.get(entry.node.id) || []).length;
+  const widestParents = visited
+    .filter((entry) => childCount(entry) > 0)
+    .sort((a, b) => childCount(b) - childCount(a))
+    .slice(0, limit)
+    .map((entry) => ({ ...summary(entry.node), childCount: childCount(entry) }));
+  const largestSubtrees = visited
+    .filter((entry) => entry.descendants > 0)
+    .sort((a, b) => b.descendants - a.descendants)
+    .slice(0, limit)
+    .map((entry) => ({ ...summary(entry.node), descendantCount: entry.descendants }));
+
+  // Nodes without timestamps are neither stale nor fresh
+  const cutoff = now - staleDays * DAY_MS;
+  const staleNodes = visited.filter((entry) => {
+    const modified = timestampMs(entry.node.modifiedAt);
+    return modified !== null && modified < cutoff;
+  });
+  // Only the topmost of nested stale subtrees; visited is in outline order,
+  // so a stale parent is always seen before its children
+  const covered = new Set<string>();
+  const staleSubtrees: Visited[] = [];
+  for (const entry of visited) {
+    if (entry.lastModified === null || entry.lastModified >= cutoff) continue;
+    covered.add(entry.node.id);
+    if (!covered.has(entry.node.parent_id || "")) staleSubtrees.push(entry);
+  }
+  staleSubtrees.sort(
+    (a, b) => b.descendants - a.descendants || (a.lastModified ?? 0) - (b.lastModified ?? 0)
+  );
+
+  return {
+    scope: scope ? summary(scope) : null,
+    counts: {
+      nodes: visited.length,
+      completed: visited.filter((entry) => isCompleted(entry.node)).length,
+      withNotes: visited.filter((entry) => entry.node.note).length,
+      tasks: taskCounts(tasks, completedTasks),
+    },
+    depth: {
+      max: maxDepth,
+      average: visited.length ? Math.round((depthTotal / visited.length) * 100) / 100 : 0,
+    },
+    widestParents,
+    largestSubtrees,
+    branches: branches.map((branch) => ({
+      ...summary(branch.node),
+      nodeCount: branch.descendants + 1,
+      tasks: taskCounts(branch.tasks, branch.completedTasks),
+    })),
+    stale: {
+      days: staleDays,
+      cutoff: new Date(cutoff).toISOString(),
+      nodeCount: staleNodes.length,
+      subtreeCount: staleSubtrees.length,
+      subtrees: staleSubtrees.slice(0, limit).map((entry) => ({
+        ...summary(entry.node),
+        nodeCount: entry.descendants + 1,
+        lastModified: new Date(entry.lastModified!).toISOString(),
+        daysSinceModified: Math.floor((now - entry.lastModified!) / DAY_MS),
+      })),
+    },
+  };
+}
@@ -0,0 +1,149 @@
+// Index of #tags and @mentions across the outline. Tags match whole, and
+// case-insensitively, so #api never matches #api-v2.
+
+import { FlatNode, isCompleted } from "./outline-format.js";
+import { breadcrumb } from "./paths.js";
+
+export interface TagSummary {
+  tag: string;
+  kind: "tag" | "mention";
+  nodeCount: number;
+  openCount: number;
+}
+
+export interface TagRenameChange {
+  id: string;
+  breadcrumb: string;
+  name?: { before: string; after: string };
+  note?: { before: string; after: string };
+}
+
+// A tag starts at the beginning of the text or after anything that cannot be
+// part of a word or tag, so "bob@example.com" and "page#anchor" are not tags
+const TAG_CHARS = "[\\w-]";
+const TAG_RE = new RegExp(`(^|[^\\w#@-])([#@]${TAG_CHARS}+)`, "g");
+const VALID_TAG_RE = /^[#@][\w-]+$/;
+
+export function isValidTag(tag: string): boolean {
+  return VALID_TAG_RE.test(tag);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Markup attributes such as link targets are not tags
+function visibleText(text: string): string {
+  return text.replace(/<[^>]+>/g, " ");
+}
+
+export function tagsIn(text: string | null | undefined): string[] {
+  const tags: string[] = [];
+  for (const match of visibleText(text || "").matchAll(TAG_RE)) tags.push(match[2]);
+  return tags;
+}
+
+export function nodeTags(node: FlatNode): string[] {
+  return [...tagsIn(node.name), ...tagsIn(node.note)];
+}
+
+// Tags keyed by lower case, each with its most common spelling and the nodes carrying it
+export function buildTagIndex(nodes: FlatNode[]): Map<string, { tag: string; nodes: FlatNode[] }> {
+  const index = new Map<string, { spellings: Map<string, number>; nodes: FlatNode[] }>();
+  for (const node of nodes) {
+    const seen = new Set<string>();
+    for (const tag of nodeTags(node)) {
+      const key = tag.toLowerCase();
+      let entry = index.get(key);
+      if (!entry) {
+        entry = { spellings: new Map(), nodes: [] };
+        index.set(key, entry);
+      }
+      entry.spellings.set(tag, (entry.spellings.get(tag) || 0) + 1);
+      if (!seen.has(key)) entry.nodes.push(node);
+      seen.add(key);
+    }
+  }
+  const result = new Map<string, { tag: string; nodes: FlatNode[] }>();
+  for (const [key, entry] of index) {
+    const [tag] = [...entry.spellings].sort((a, b) => b[1] - a[1])[0];
+    result.set(key, { tag, nodes: entry.nodes });
+  }
+  return result;
+}
+
+export function listTags(
+  nodes: FlatNode[],
+  options: { kind?: "tag" | "mention" | "all"; prefix?: string } = {}
+): TagSummary[] {
+  const { kind = "all", prefix } = options;
+  const summaries: TagSummary[] = [];
+  for (const [key, entry] of buildTagIndex(nodes)) {
+    const tagKind = key.startsWith("@") ? "mention" : "tag";
+    if (kind !== "all" && tagKind !== kind) continue;
+    if (prefix && !key.startsWith(prefix.toLowerCase())) continue;
+    summaries.push({
+      tag: entry.tag,
+      kind: tagKind,
+      nodeCount: entry.nodes.length,
+      openCount: entry.nodes.filter((n) => !isCompleted(n)).length,
+    });
+  }
+  return summaries.sort((a, b) => b.nodeCount - a.nodeCount || a.tag.localeCompare(b.tag));
+}
+
+export function nodesWithTag<T extends FlatNode>(nodes: T[], tag: string): T[] {
+  const key = tag.toLowerCase();
+  return nodes.filter((node) => nodeTags(node).some((t) => t.toLowerCase() === key));
+}
+
+// Apply an edit to the text between markup tags only
+function outsideMarkup(text: string, edit: (segment: string) => string): string {
+  return text
+    .split(/(<[^>]+>)/)
+    .map((segment) => (segment.startsWith("<") ? segment : edit(segment)))
+    .join("");
+}
+
+// Replace whole occurrences of a tag. When the text already carried the new
+// tag (a merge), later repeats of it are dropped along with their leading space.
+export function renameTagInText(text: string, from: string, to: string): string {
+  const regex = new RegExp(`(^|[^\\w#@-])${escapeRegExp(from)}(?!${TAG_CHARS})`, "gi");
+  const renamed = outsideMarkup(text, (segment) =>
+    segment.replace(regex, (_match, before: string) => `${before}${to}`)
+  );
+  if (renamed === text || !tagsIn(text).some((t) => t.toLowerCase() === to.toLowerCase())) {
+    return renamed;
+  }
+  let first = true;
+  const repeat = new RegExp(`\\s*(?<![\\w#@-])${escapeRegExp(to)}(?!${TAG_CHARS})`, "gi");
+  return outsideMarkup(renamed, (segment) =>
+    segment.replace(repeat, (match) => {
+      if (!first) return "";
+      first = false;
+      return match;
+    })
+  );
+}
+
+// The name and note edits a rename or merge would make, node by node
+export function planTagRename(nodes: FlatNode[], from: string, to: string): TagRenameChange[] {
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  const changes: TagRenameChange[] = [];
+  for (const node of nodesWithTag(nodes, from)) {
+    const change: TagRenameChange = { id: node.id, breadcrumb: breadcrumb(node.id, nodeMap) };
+    for (const field of ["name", "note"] as const) {
+      const before = node[field] || "";
+      const after = renameTagInText(before, from, to);
+      if (after !== before) change[field] = { before, after };
+    }
+    if (change.name || change.note) changes.push(change);
+  }
+  return changes;
+}
+
+// Drop whole occurrences of a tag along with the space before them
+export function removeTagFromText(text: string, tag: string): string {
+  const regex = new RegExp(`\\s*(?<![\\w#@-])${escapeRegExp(tag)}(?!${TAG_CHARS})`, "gi");
+  return outsideMarkup(text, (segment) => segment.replace(regex, "")).trim();
+}
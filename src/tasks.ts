@@ -0,0 +1,263 @@
+// Tasks on top of the cached outline: todo-layout nodes (and any node with a
+// "due:" marker), their due dates, and completion rollups per parent.
+//
+// Due dates are read from node names, then notes, in order of preference:
+//   due:2024-05-03  due:today  due:<time …>   explicit marker
+//   <time startYear="2024" startMonth="5" startDay="3">   Workflowy date tag
+//   2024-05-03                                  first ISO date in the text
+// Dates are calendar days ("YYYY-MM-DD") in the server's local time zone.
+
+import { buildChildrenMap, FlatNode, isCompleted, layoutModeOf } from "./outline-format.js";
+import { breadcrumb, plainName } from "./paths.js";
+import { ArgumentError } from "./schema.js";
+
+export type DueSource = "due-marker" | "date-tag" | "iso-date";
+
+export interface DueDate {
+  date: string;
+  source: DueSource;
+}
+
+export type TaskStatus = "open" | "completed" | "all";
+
+export interface TaskFilter {
+  scopeId?: string | null;
+  status?: TaskStatus;
+  // Inclusive due-date window, as YYYY-MM-DD
+  dueFrom?: string;
+  dueTo?: string;
+  overdue?: boolean;
+  hasDueDate?: boolean;
+  limit?: number;
+}
+
+export interface TaskInfo {
+  id: string;
+  name: string;
+  note: string | null;
+  completed: boolean;
+  due: string | null;
+  dueSource: DueSource | null;
+  overdue: boolean;
+  daysUntilDue: number | null;
+  breadcrumb: string;
+}
+
+export interface TaskRollup {
+  id: string | null;
+  name: string;
+  breadcrumb: string;
+  total: number;
+  completed: number;
+  open: number;
+  overdue: number;
+  percentComplete: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELATIVE_DAYS: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+
+const DUE_MARKER_RE =
+  /\bdue:\s*(<time\b[^>]*>|\d{4}-\d{2}-\d{2}\b|today\b|tomorrow\b|yesterday\b)/i;
+const TIME_TAG_RE = /<time\b([^>]*)>/i;
+const ISO_DATE_RE = /\b(\d{4})-(\d{2})-(\d{2})\b/;
+
+export function dayKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split("-").map(Number);
+  return dayKey(new Date(year, month - 1, date + days));
+}
+
+// Whole days from one YYYY-MM-DD to another
+function daysBetween(from: string, to: string): number {
+  const utc = (day: string) => {
+    const [year, month, date] = day.split("-").map(Number);
+    return Date.UTC(year, month - 1, date);
+  };
+  return Math.round((utc(to) - utc(from)) / DAY_MS);
+}
+
+// YYYY-MM-DD for a valid calendar date, or null
+function calendarDay(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return dayKey(date);
+}
+
+function timeTagDay(attributes: string): string | null {
+  const attribute = (name: string) => Number(attributes.match(new RegExp(`${name}="(\\d+)"`))?.[1]);
+  return calendarDay(attribute("startYear"), attribute("startMonth"), attribute("startDay"));
+}
+
+function isoDay(text: string): string | null {
+  const match = text.match(ISO_DATE_RE);
+  return match ? calendarDay(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+function dueDateIn(text: string, today: string): DueDate | null {
+  const marker = text.match(DUE_MARKER_RE);
+  if (marker) {
+    const value = marker[1];
+    const lower = value.toLowerCase();
+    const date =
+      lower in RELATIVE_DAYS
+        ? addDays(today, RELATIVE_DAYS[lower])
+        : value.startsWith("<")
+          ? timeTagDay(value)
+          : isoDay(value);
+    if (date) return { date, source: "due-marker" };
+  }
+  const tag = text.match(TIME_TAG_RE);
+  const tagDate = tag ? timeTagDay(tag[1]) : null;
+  if (tagDate) return { date: tagDate, source: "date-tag" };
+  const isoDate = isoDay(text);
+  if (isoDate) return { date: isoDate, source: "iso-date" };
+  return null;
+}
+
+// The due date of a node, from its name first and then its note
+export function parseDueDate(node: FlatNode, today = dayKey(new Date())): DueDate | null {
+  return dueDateIn(node.name || "", today) || dueDateIn(node.note || "", today);
+}
+
+// A day argument: YYYY-MM-DD, "today", "tomorrow", "yesterday", or "+N"/"-N" days from today
+export function parseDayArgument(value: string, field: string, today = dayKey(new Date())): string {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed in RELATIVE_DAYS) return addDays(today, RELATIVE_DAYS[trimmed]);
+  if (/^[+-]\d+$/.test(trimmed)) return addDays(today, Number(trimmed));
+  const match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const day = match && calendarDay(Number(match[1]), Number(match[2]), Number(match[3]));
+  if (!day) {
+    throw new ArgumentError([
+      {
+        field,
+        message: `must be YYYY-MM-DD, "today", "tomorrow", "yesterday" or "+N"/"-N" days (got "${value}")`,
+      },
+    ]);
+  }
+  return day;
+}
+
+export function isTask(node: FlatNode): boolean {
+  return (
+    layoutModeOf(node) === "todo" ||
+    DUE_MARKER_RE.test(node.name || "") ||
+    DUE_MARKER_RE.test(node.note || "")
+  );
+}
+
+// Nodes in outline order: the scope node's subtree, or the whole outline
+function outlineOrder(nodes: FlatNode[], scopeId: string | null): FlatNode[] {
+  const children = buildChildrenMap(nodes);
+  const ordered: FlatNode[] = [];
+  const visit = (node: FlatNode) => {
+    ordered.push(node);
+    for (const child of children.get(node.id) || []) visit(child);
+  };
+  if (scopeId) {
+    const root = nodes.find((n) => n.id === scopeId);
+    if (!root) throw new ArgumentError([{ field: "nodeId", message: `${scopeId} was not found` }]);
+    visit(root);
+  } else {
+    for (const root of children.get(null) || []) visit(root);
+  }
+  return ordered;
+}
+
+export function listTasks(
+  nodes: FlatNode[],
+  filter: TaskFilter = {},
+  today = dayKey(new Date())
+): { today: string; total: number; tasks: TaskInfo[]; rollups: TaskRollup[] } {
+  const {
+    scopeId = null,
+    status = "open",
+    dueFrom,
+    dueTo,
+    overdue,
+    hasDueDate,
+    limit = 100,
+  } = filter;
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+
+  const toTask = (node: FlatNode): TaskInfo => {
+    const due = parseDueDate(node, today);
+    const completed = isCompleted(node);
+    return {
+      id: node.id,
+      name: node.name || "",
+      note: node.note || null,
+      completed,
+      due: due?.date ?? null,
+      dueSource: due?.source ?? null,
+      overdue: !completed && !!due && due.date < today,
+      daysUntilDue: due ? daysBetween(today, due.date) : null,
+      breadcrumb: breadcrumb(node.id, nodeMap),
+    };
+  };
+  const allTasks = outlineOrder(nodes, scopeId).filter(isTask).map(toTask);
+
+  const matches = allTasks.filter((task) => {
+    if (status === "open" && task.completed) return false;
+    if (status === "completed" && !task.completed) return false;
+    if (overdue !== undefined && task.overdue !== overdue) return false;
+    if (hasDueDate !== undefined && (task.due !== null) !== hasDueDate) return false;
+    if (dueFrom && (!task.due || task.due < dueFrom)) return false;
+    if (dueTo && (!task.due || task.due > dueTo)) return false;
+    return true;
+  });
+  // Dated tasks first, soonest due first; the rest keep outline order
+  const sorted = matches
+    .map((task, index) => ({ task, index }))
+    .sort((a, b) => {
+      if (a.task.due && b.task.due && a.task.due !== b.task.due) {
+        return a.task.due < b.task.due ? -1 : 1;
+      }
+      if (!!a.task.due !== !!b.task.due) return a.task.due ? -1 : 1;
+      return a.index - b.index;
+    })
+    .map(({ task }) => task);
+
+  // Completion of all sibling tasks under each parent of a matching task
+  const parentIds = new Set(matches.map((task) => nodeMap.get(task.id)?.parent_id || null));
+  const rollups = new Map<string | null, TaskRollup>();
+  for (const task of allTasks) {
+    const parentId = nodeMap.get(task.id)?.parent_id || null;
+    if (!parentIds.has(parentId)) continue;
+    let rollup = rollups.get(parentId);
+    if (!rollup) {
+      const parent = parentId ? nodeMap.get(parentId) : undefined;
+      rollup = {
+        id: parentId,
+        name: parent ? plainName(parent.name) : "(top level)",
+        breadcrumb: parentId ? breadcrumb(parentId, nodeMap) : "",
+        total: 0,
+        completed: 0,
+        open: 0,
+        overdue: 0,
+        percentComplete: 0,
+      };
+      rollups.set(parentId, rollup);
+    }
+    rollup.total++;
+    if (task.completed) rollup.completed++;
+    else rollup.open++;
+    if (task.overdue) rollup.overdue++;
+  }
+  for (const rollup of rollups.values()) {
+    rollup.percentComplete = Math.round((rollup.completed / rollup.total) * 100);
+  }
+
+  return {
+    today,
+    total: sorted.length,
+    tasks: sorted.slice(0, limit),
+    rollups: [...rollups.values()],
+  };
+}
@@ -0,0 +1,140 @@
+// Templates: subtrees whose top node carries #template. Names and notes may
+// hold {{variable}} placeholders, optionally with a default as
+// {{variable|default}}. Built-in variables such as {{date}} are filled in
+// automatically unless a value is supplied for them.
+
+import { collectSubtree, FlatNode } from "./outline-format.js";
+import { breadcrumb, plainName } from "./paths.js";
+import { ArgumentError } from "./schema.js";
+import { removeTagFromText, tagsIn } from "./tags.js";
+import { dayKey } from "./tasks.js";
+
+export const TEMPLATE_TAG = "#template";
+
+export interface TemplateVariable {
+  name: string;
+  required: boolean;
+  default?: string;
+  builtin?: boolean;
+}
+
+export interface TemplateSummary {
+  id: string;
+  name: string;
+  breadcrumb: string;
+  nodeCount: number;
+  variables: TemplateVariable[];
+}
+
+const PLACEHOLDER_RE = /\{\{\s*([\w-]+)\s*(?:\|([^}]*))?\}\}/g;
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export function builtinVariables(now = new Date()): Record<string, string> {
+  const offset = (days: number) =>
+    dayKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() + days));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return {
+    date: dayKey(now),
+    today: dayKey(now),
+    tomorrow: offset(1),
+    yesterday: offset(-1),
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+    weekday: WEEKDAYS[now.getDay()],
+    year: String(now.getFullYear()),
+  };
+}
+
+// The name a template is listed and looked up by, without its tag
+export function templateName(node: FlatNode): string {
+  return plainName(removeTagFromText(node.name || "", TEMPLATE_TAG));
+}
+
+// Variables used anywhere in a template, in order of first use
+export function templateVariables(subtree: FlatNode[], now = new Date()): TemplateVariable[] {
+  const builtins = builtinVariables(now);
+  const variables = new Map<string, TemplateVariable>();
+  for (const node of subtree) {
+    for (const text of [node.name || "", node.note || ""]) {
+      for (const [, name, fallback] of text.matchAll(PLACEHOLDER_RE)) {
+        const existing = variables.get(name);
+        if (existing) {
+          if (fallback !== undefined && existing.default === undefined) {
+            existing.default = fallback;
+            existing.required = false;
+          }
+          continue;
+        }
+        const builtin = Object.hasOwn(builtins, name);
+        variables.set(name, {
+          name,
+          required: !builtin && fallback === undefined,
+          ...(fallback !== undefined ? { default: fallback } : {}),
+          ...(builtin ? { builtin: true } : {}),
+        });
+      }
+    }
+  }
+  return [...variables.values()];
+}
+
+// A placeholder without a value takes its own default, else the default
+// given for the same variable elsewhere in the template
+export function fillPlaceholders(
+  text: string,
+  values: Record<string, string>,
+  defaults: Record<string, string> = {}
+): string {
+  return text.replace(PLACEHOLDER_RE, (match, name: string, fallback?: string) => {
+    if (Object.hasOwn(values, name)) return values[name];
+    return fallback ?? (Object.hasOwn(defaults, name) ? defaults[name] : match);
+  });
+}
+
+export function findTemplates(nodes: FlatNode[]): TemplateSummary[] {
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  // Only a tag in the name marks a template; a mention in a note does not
+  return nodes
+    .filter((node) => tagsIn(node.name).some((tag) => tag.toLowerCase() === TEMPLATE_TAG))
+    .map((node) => {
+      const subtree = collectSubtree(nodes, node.id);
+      return {
+        id: node.id,
+        name: templateName(node),
+        breadcrumb: breadcrumb(node.id, nodeMap),
+        nodeCount: subtree.length,
+        variables: templateVariables(subtree),
+      };
+    });
+}
+
+// The template subtree with placeholders filled in and the tag dropped from
+// its top node. Throws an ArgumentError naming variables.<name> for each
+// required variable without a value.
+export function renderTemplate(
+  subtree: FlatNode[],
+  rootId: string,
+  supplied: Record<string, string>,
+  now = new Date()
+): FlatNode[] {
+  const variables = templateVariables(subtree, now);
+  const missing = variables.filter((v) => v.required && !Object.hasOwn(supplied, v.name));
+  if (missing.length > 0) {
+    throw new ArgumentError(
+      missing.map((v) => ({ field: `variables.${v.name}`, message: "is required by the template" }))
+    );
+  }
+  const values = { ...builtinVariables(now), ...supplied };
+  const defaults: Record<string, string> = {};
+  for (const variable of variables) {
+    if (variable.default !== undefined) defaults[variable.name] = variable.default;
+  }
+  return subtree.map((node) => ({
+    ...node,
+    name: fillPlaceholders(
+      node.id === rootId ? removeTagFromText(node.name || "", TEMPLATE_TAG) : node.name || "",
+      values,
+      defaults
+    ),
+    note: node.note ? fillPlaceholders(node.note, values, defaults) : node.note,
+  }));
+}
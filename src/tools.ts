@@ -0,0 +1,547 @@
+// The tools this server offers. Each input schema both validates a call's
+// arguments and produces the inputSchema advertised in tools/list.
+
+import { BATCH_OPS } from "./batch.js";
+import { LAYOUT_MODES } from "./outline-format.js";
+import { SORT_KEYS } from "./sort.js";
+import {
+  array,
+  boolean,
+  enumOf,
+  Infer,
+  number,
+  object,
+  ObjectSchema,
+  record,
+  string,
+  union,
+} from "./schema.js";
+
+// A node ID or a path such as "Work > Projects"
+const nodeRef = (description: string) => string({ description, minLength: 1 });
+
+const priority = (description: string) => number({ description, integer: true, minimum: 0 });
+
+const layoutMode = (description?: string) => enumOf(LAYOUT_MODES, { description });
+
+const maxCount = (description: string) => number({ description, integer: true, minimum: 1 });
+
+const NODE_FIELDS = [
+  "name",
+  "note",
+  "parent_id",
+  "priority",
+  "completed",
+  "completedAt",
+  "createdAt",
+  "modifiedAt",
+  "data",
+  "breadcrumb",
+] as const;
+
+// Arguments that shape a list result (see result-shaping.ts)
+const shaping = (fields: readonly string[]) => ({
+  fields: array(enumOf(fields), {
+    description: "Only include these fields of each item; id is always included (optional)",
+    minItems: 1,
+  }),
+  output: enumOf(["json", "compact"], {
+    description:
+      "'json' (default) or 'compact': one line per item with its name, breadcrumb and ID",
+  }),
+  cursor: string({
+    description:
+      "nextCursor from the previous page of this same call, to continue where it stopped (optional)",
+  }),
+  pageSize: maxCount("Maximum number of items per page (optional)"),
+  maxChars: number({
+    description:
+      "Approximate size limit of the response in characters (default: 40000). Items that do not fit are left for the next page",
+    integer: true,
+    minimum: 1000,
+  }),
+  maxTokens: number({
+    description: "The size limit in tokens instead, at about 4 characters per token (optional)",
+    integer: true,
+    minimum: 250,
+  }),
+});
+
+// Arguments that shape a node tree. There is no paging: a tree too large for
+// the budget loses its deepest levels instead.
+const treeShaping = (fields: readonly string[]) => {
+  const { cursor: _cursor, pageSize: _pageSize, ...rest } = shaping(fields);
+  return {
+    ...rest,
+    output: enumOf(["json", "compact"], {
+      description: "'json' (default) or 'compact': one indented line per node with its name and ID",
+    }),
+  };
+};
+
+function tool<const N extends string, I extends ObjectSchema<any, any>>(
+  name: N,
+  description: string,
+  input: I
+) {
+  return { name, description, input };
+}
+
+export const TOOLS = [
+  tool(
+    "workflowy_create_node",
+    "Create a new node (bullet point) in Workflowy. Can specify parent node, content, notes, and display mode.",
+    object(
+      {
+        name: string({ description: "The main text content of the node (supports markdown)" }),
+        parentId: nodeRef(
+          "ID of the parent node or its path, e.g. 'Work > Projects' (optional, defaults to root)"
+        ),
+        note: string({ description: "Optional extended description/notes for the node" }),
+        priority: priority("Sort order among siblings (optional)"),
+        layoutMode: layoutMode("Display style for the node (optional)"),
+      },
+      { required: ["name"] }
+    )
+  ),
+  tool(
+    "workflowy_import_outline",
+    "Import a Markdown or OPML outline as a subtree in one call. Markdown lists nest by indentation, headings become h1/h2/h3, fenced code becomes code-block, and '- [ ]' items become todos. Returns the node ID created for each source line.",
+    object(
+      {
+        content: string({ description: "The Markdown or OPML text to import" }),
+        format: enumOf(["markdown", "opml"], {
+          description: "Format of the content (optional, detected automatically)",
+        }),
+        parentId: nodeRef(
+          "ID of the node to import under or its path, e.g. 'Work > Projects' (optional, defaults to root)"
+        ),
+        priority: priority(
+          "Sort order of the first top-level imported node (optional, defaults to after existing children)"
+        ),
+      },
+      { required: ["content"] }
+    )
+  ),
+  tool(
+    "workflowy_get_node",
+    "Retrieve details about a specific node by its ID.",
+    object(
+      {
+        nodeId: nodeRef(
+          "The unique ID of the node to retrieve or its path, e.g. 'Work > Projects'"
+        ),
+      },
+      { required: ["nodeId"] }
+    )
+  ),
+  tool(
+    "workflowy_list_nodes",
+    "List child nodes under a parent node. If no parentId is provided, lists root-level nodes.",
+    object({
+      parentId: nodeRef(
+        "ID of the parent node or its path, e.g. 'Work > Projects' (optional, defaults to root)"
+      ),
+      ...shaping(NODE_FIELDS),
+    })
+  ),
+  tool(
+    "workflowy_search",
+    "Search for nodes by text content across your ENTIRE Workflowy outline (all nodes including deeply nested children). Returns matching nodes with their IDs and parent relationships. Use this to find nodes anywhere in your hierarchy. With syntax 'query', the query supports words, \"phrases\", /regex/flags, name:/note: field prefixes, #tag and @mention, is:completed / is:open / is:todo, layout:h1, under:<nodeId>, AND / OR / NOT (or -term) and parentheses.",
+    object(
+      {
+        query: string({
+          description:
+            "Text to search for in node names and notes, or a structured query when syntax is 'query'",
+        }),
+        syntax: enumOf(["text", "query"], {
+          description:
+            "'text' for a plain substring match, 'query' for the structured query language (default: text)",
+        }),
+        searchName: boolean({ description: "Search in node names (default: true)" }),
+        searchNote: boolean({ description: "Search in node notes (default: true)" }),
+        caseSensitive: boolean({ description: "Case-sensitive search (default: false)" }),
+        maxResults: maxCount("Maximum number of results to return (default: 100)"),
+        ...shaping(NODE_FIELDS),
+      },
+      { required: ["query"] }
+    )
+  ),
+  tool(
+    "workflowy_get_node_hierarchy",
+    "Get a node with its children and descendants to see the full context and structure around it. Useful after finding a node via search to understand where it lives in your outline.",
+    object(
+      {
+        nodeId: nodeRef(
+          "ID of the node to retrieve with its hierarchy or its path, e.g. 'Work > Projects'"
+        ),
+        depth: number({
+          description:
+            "How many levels of children to include (0 = just the node, 1 = node + direct children, 2 = node + children + grandchildren, etc.). Default: 1, Max: 5",
+          integer: true,
+          minimum: 0,
+          maximum: 5,
+        }),
+        ...treeShaping(NODE_FIELDS.filter((field) => field !== "breadcrumb")),
+      },
+      { required: ["nodeId"] }
+    )
+  ),
+  tool(
+    "workflowy_update_node",
+    "Update an existing node's content, notes, priority, or layout mode.",
+    object(
+      {
+        nodeId: nodeRef("The unique ID of the node to update or its path, e.g. 'Work > Projects'"),
+        name: string({ description: "Updated text content (optional)" }),
+        note: string({ description: "Updated notes (optional)" }),
+        priority: priority("Updated sort order (optional)"),
+        layoutMode: layoutMode("Updated display style (optional)"),
+      },
+      { required: ["nodeId"] }
+    )
+  ),
+  tool(
+    "workflowy_delete_node",
+    "Delete a node and all its children. The subtree is backed up to a local trash first and can be brought back with workflowy_restore_deleted.",
+    object(
+      {
+        nodeId: nodeRef("The unique ID of the node to delete or its path, e.g. 'Work > Projects'"),
+      },
+      { required: ["nodeId"] }
+    )
+  ),
+  tool(
+    "workflowy_move_node",
+    "Move a node to a different location in the hierarchy by changing its parent.",
+    object(
+      {
+        nodeId: nodeRef("The unique ID of the node to move or its path, e.g. 'Work > Projects'"),
+        parentId: nodeRef("ID of the new parent node or its path, e.g. 'Work > Projects'"),
+        priority: priority("Sort order in the new location (optional)"),
+      },
+      { required: ["nodeId", "parentId"] }
+    )
+  ),
+  tool(
+    "workflowy_sort_children",
+    "Sort the children of a node by name (natural order, so 'Item 2' comes before 'Item 10'), completion (open first), due date found in the text, creation or modification time (oldest first), or an explicit order of child IDs. Children already in the right order stay put, and only the fewest moves needed are made. The default is a dry run that returns the new order and the planned moves; call again with dryRun false to apply them.",
+    object(
+      {
+        parentId: nodeRef(
+          "ID of the node whose children to sort or its path, e.g. 'Work > Projects'"
+        ),
+        by: enumOf(SORT_KEYS, {
+          description:
+            "What to sort on: name, completed, due, created, modified, or order for an explicit order",
+        }),
+        descending: boolean({
+          description:
+            "Reverse the order (default: false). Children without a due date or timestamp always come last",
+        }),
+        order: array(string({ minLength: 1 }), {
+          description:
+            "With by 'order': child IDs in their new order. Children not listed follow in their current order",
+          minItems: 1,
+        }),
+        dryRun: boolean({ description: "Only preview the new order and moves (default: true)" }),
+      },
+      { required: ["parentId", "by"] }
+    )
+  ),
+  tool(
+    "workflowy_complete_node",
+    "Mark a node as complete (for todo-style nodes).",
+    object(
+      {
+        nodeId: nodeRef(
+          "The unique ID of the node to mark complete or its path, e.g. 'Work > Projects'"
+        ),
+      },
+      { required: ["nodeId"] }
+    )
+  ),
+  tool(
+    "workflowy_uncomplete_node",
+    "Mark a node as incomplete (for todo-style nodes).",
+    object(
+      {
+        nodeId: nodeRef(
+          "The unique ID of the node to mark incomplete or its path, e.g. 'Work > Projects'"
+        ),
+      },
+      { required: ["nodeId"] }
+    )
+  ),
+  tool(
+    "workflowy_export",
+    "Export your Workflowy outline, or the subtree under one node, as JSON, Markdown, OPML or indented plain text. Rendered from the cached node list (the underlying export is limited to 1 request per minute). Every format is cut to the size budget; JSON exports can also be paged with a cursor and narrowed to chosen fields.",
+    object({
+      format: enumOf(["json", "markdown", "opml", "plaintext"], {
+        description: "Output format (default: json)",
+      }),
+      nodeId: nodeRef(
+        "ID of the node to export with its descendants or its path, e.g. 'Work > Projects' (optional, defaults to the whole outline)"
+      ),
+      ...shaping(NODE_FIELDS),
+    })
+  ),
+  tool(
+    "workflowy_batch",
+    "Run an ordered list of operations (create, update, move, complete, uncomplete, delete) in one call. A create can declare a 'ref'; later operations can use '$ref' as a nodeId or parentId to mean the node it created. Returns a result per operation. Rate-limited calls are retried after the delay the API asks for.",
+    object(
+      {
+        operations: array(
+          object(
+            {
+              op: enumOf(BATCH_OPS),
+              ref: string({ description: "Placeholder name for the node a create produces" }),
+              nodeId: string(),
+              parentId: string(),
+              name: string(),
+              note: string(),
+              priority: priority("Sort order among siblings"),
+              layoutMode: layoutMode(),
+            },
+            { required: ["op"] }
+          ),
+          {
+            description:
+              "Operations to run in order. Each has an 'op' plus that operation's arguments, e.g. {op: 'create', ref: 'sprint', parentId: '...', name: 'Sprint 12'}, {op: 'move', nodeId: '...', parentId: '$sprint'}, {op: 'complete', nodeId: '...'}",
+            minItems: 1,
+          }
+        ),
+        stopOnError: boolean({
+          description:
+            "Stop at the first failed operation and skip the rest (default: true). When false, keep going.",
+        }),
+        delayMs: number({
+          description: "Pause between operations in milliseconds (default: 0)",
+          minimum: 0,
+        }),
+      },
+      { required: ["operations"] }
+    )
+  ),
+  tool(
+    "workflowy_list_trash",
+    "List subtrees deleted through this server that are kept in the local trash, most recent first, with where they used to live.",
+    object({
+      ...shaping(["deletedAt", "nodeId", "name", "parentId", "parentBreadcrumb", "nodeCount"]),
+    })
+  ),
+  tool(
+    "workflowy_restore_deleted",
+    "Recreate a deleted subtree from the local trash under its original parent (or a chosen parent), keeping order, notes, layout modes and completion. Returns the new node IDs.",
+    object(
+      {
+        trashId: string({
+          description: "ID of the trash entry from workflowy_list_trash",
+          minLength: 1,
+        }),
+        parentId: nodeRef(
+          "ID of the node to restore under or its path, e.g. 'Work > Projects' (optional, defaults to the original parent)"
+        ),
+        priority: priority(
+          "Sort order under the parent (optional, defaults to the original position)"
+        ),
+      },
+      { required: ["trashId"] }
+    )
+  ),
+  tool(
+    "workflowy_copy_subtree",
+    "Copy a node and everything under it to another location, keeping names, notes, layout modes, sibling order and (optionally) completion. Useful for project skeletons and recurring checklists. Returns the old-to-new node ID map.",
+    object(
+      {
+        nodeId: nodeRef("ID of the node to copy or its path, e.g. 'Templates > Sprint checklist'"),
+        parentId: nodeRef(
+          "ID of the node to copy under or its path (optional, defaults to the top level)"
+        ),
+        priority: priority("Sort order of the copy under the parent (optional)"),
+        resetCompletion: boolean({
+          description: "Create every copied node as not completed (default: false)",
+        }),
+      },
+      { required: ["nodeId"] }
+    )
+  ),
+  tool(
+    "workflowy_list_templates",
+    "List templates: nodes with #template in their name. Each entry gives the template's name, size and the {{variables}} its text uses, marking which are required, which have defaults and which are built in (date, today, tomorrow, yesterday, time, weekday, year).",
+    object({
+      ...shaping(["name", "breadcrumb", "nodeCount", "variables"]),
+    })
+  ),
+  tool(
+    "workflowy_instantiate_template",
+    "Create a copy of a template under a parent node, filling in its {{variable}} placeholders. Built-in variables such as {{date}} are filled in automatically; every required variable must be supplied. The #template tag is dropped from the copy and every copied node starts uncompleted.",
+    object(
+      {
+        template: string({
+          description: "Template node ID, template name, or path to the template node",
+          minLength: 1,
+        }),
+        parentId: nodeRef(
+          "ID of the node to create the copy under or its path (optional, defaults to the top level)"
+        ),
+        variables: record(union([string(), number(), boolean()]), {
+          description: 'Values for the template variables, e.g. { "client": "Acme" }',
+        }),
+        priority: priority("Sort order of the copy under the parent (optional)"),
+      },
+      { required: ["template"] }
+    )
+  ),
+  tool(
+    "workflowy_history",
+    "List recent operations made through this server (create, update, move, complete, uncomplete, delete), most recent first, with their journal IDs and whether each can be undone.",
+    object({
+      limit: maxCount("Maximum number of entries to return (default: 20)"),
+      ...shaping(["at", "operation", "nodeId", "summary", "undoOf", "undoneBy", "undoable"]),
+    })
+  ),
+  tool(
+    "workflowy_undo",
+    "Undo an operation from workflowy_history by applying its inverse: restore the old name/note/priority/layout, move the node back, flip completion, delete a created node, or recreate a deleted subtree (with new IDs).",
+    object({
+      entryId: string({
+        description:
+          "Journal ID of the operation to undo, e.g. 'op-12' (optional, defaults to the most recent undoable operation)",
+      }),
+    })
+  ),
+  tool(
+    "workflowy_list_tasks",
+    "List tasks (todo nodes, and any node with a 'due:' marker in its name or note) with their due dates, read from ISO dates, Workflowy date tags or 'due:' markers in the name or note. Filter by completion, due window, overdue and scope node. Also returns completion rollups for each parent of a listed task.",
+    object({
+      nodeId: nodeRef("Only list tasks under this node (optional, defaults to the whole outline)"),
+      status: enumOf(["open", "completed", "all"], {
+        description: "Completion state to list (default: open)",
+      }),
+      dueFrom: string({
+        description:
+          "Earliest due date to include: YYYY-MM-DD, 'today', 'tomorrow', 'yesterday' or '+N'/'-N' days from today (optional)",
+      }),
+      dueTo: string({
+        description: "Latest due date to include, in the same forms as dueFrom (optional)",
+      }),
+      overdue: boolean({
+        description: "true for only open tasks due before today, false to exclude them (optional)",
+      }),
+      hasDueDate: boolean({
+        description: "true for only tasks with a due date, false for only undated ones (optional)",
+      }),
+      limit: maxCount("Maximum number of tasks to return (default: 100)"),
+      ...shaping([
+        "name",
+        "note",
+        "completed",
+        "due",
+        "dueSource",
+        "overdue",
+        "daysUntilDue",
+        "breadcrumb",
+      ]),
+    })
+  ),
+  tool(
+    "workflowy_list_tags",
+    "List every #tag and @mention in the outline with the number of nodes carrying it (and how many of those are open). Tags are matched whole and case-insensitively.",
+    object({
+      kind: enumOf(["tag", "mention", "all"], {
+        description: "List only #tags, only @mentions, or both (default: all)",
+      }),
+      prefix: string({
+        description: "Only list tags starting with this, e.g. '#project-' (optional)",
+      }),
+      nodeId: nodeRef("Only count tags under this node (optional, defaults to the whole outline)"),
+      ...shaping(["kind", "nodeCount", "openCount"]),
+    })
+  ),
+  tool(
+    "workflowy_get_tag",
+    "Get the nodes carrying an exact #tag or @mention. Unlike text search, '#api' does not match '#api-v2'.",
+    object(
+      {
+        tag: string({ description: "The tag including its '#' or '@', e.g. '#project-x'" }),
+        includeCompleted: boolean({ description: "Include completed nodes (default: true)" }),
+        maxResults: maxCount("Maximum number of nodes to return (default: 100)"),
+        ...shaping(NODE_FIELDS),
+      },
+      { required: ["tag"] }
+    )
+  ),
+  tool(
+    "workflowy_rename_tag",
+    "Rename a #tag or @mention on every node that carries it, or merge it into another existing tag. By default this is a dry run that only previews the affected nodes; call again with dryRun false to apply the edits.",
+    object(
+      {
+        from: string({ description: "The tag to rename, including its '#' or '@'" }),
+        to: string({
+          description: "The new tag. If it is already in use, the two tags are merged",
+        }),
+        dryRun: boolean({ description: "Only preview the edits (default: true)" }),
+      },
+      { required: ["from", "to"] }
+    )
+  ),
+  tool(
+    "workflowy_changes_since",
+    "Report what changed in the outline since a given time or snapshot: added, deleted, renamed, note-edited, moved, completed and uncompleted nodes, each with its breadcrumb. Snapshots are taken each time the outline is fetched; the response lists the ones available.",
+    object({
+      since: union([string(), number()], {
+        description:
+          "ISO date/time, epoch time, 'today' or 'yesterday'. Compares against the latest snapshot taken at or before it (optional, defaults to the oldest snapshot)",
+      }),
+      snapshotId: string({
+        description:
+          "ID of the snapshot to compare against, e.g. 'snap-1' (optional, overrides since)",
+      }),
+      ...shaping(["type", "name", "breadcrumb", "descendantCount", "before", "after"]),
+    })
+  ),
+  tool(
+    "workflowy_stats",
+    "Report on the size and shape of the outline, or of one subtree, to help decide what to prune: node, completed, note and task counts, maximum and average depth, the widest parents, the largest subtrees, task completion per top-level branch, and the subtrees where no node was modified in the last staleDays days.",
+    object({
+      nodeId: nodeRef(
+        "Only report on the subtree under this node (optional, defaults to the whole outline)"
+      ),
+      staleDays: number({
+        description: "Report subtrees with no node modified in this many days (default: 180)",
+        integer: true,
+        minimum: 1,
+      }),
+      limit: maxCount("Number of entries in each ranked list (default: 10)"),
+    })
+  ),
+  tool(
+    "workflowy_cache_status",
+    "Report the state of the cached outline snapshot used by search and export: where it came from (live API or the on-disk snapshot from a previous run), its age and its node count.",
+    object({})
+  ),
+  tool(
+    "workflowy_list_targets",
+    "List available shortcuts and system locations in Workflowy.",
+    object({})
+  ),
+  tool(
+    "workflowy_list_accounts",
+    "List the Workflowy accounts this server is configured with, which one is the default, and the state of each account's cached outline. Pass an account name as the 'account' argument of any other tool to act on that account.",
+    object({})
+  ),
+] as const;
+
+export type ToolDefinition = (typeof TOOLS)[number];
+
+export type ToolName = ToolDefinition["name"];
+
+// The arguments of a call to the named tool, once validated
+export type ToolArguments<N extends ToolName> = Infer<
+  Extract<ToolDefinition, { name: N }>["input"]
+>;
+
+export function findTool(name: string): ToolDefinition | undefined {
+  return TOOLS.find((tool) => tool.name === name);
+}
@@ -0,0 +1,90 @@
+// Local trash: a backup of every subtree deleted through this server, kept in
+// the cache directory so it survives restarts
+
+import { readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { FlatNode } from "./outline-format.js";
+import { accountFilePath } from "./snapshot-store.js";
+
+const TRASH_VERSION = 1;
+
+export interface TrashEntry {
+  id: string;
+  deletedAt: number;
+  nodeId: string;
+  name: string;
+  parentId: string | null;
+  parentBreadcrumb: string;
+  priority?: number;
+  // The deleted subtree, root first
+  nodes: FlatNode[];
+}
+
+export class Trash {
+  readonly path: string;
+  private entries: TrashEntry[];
+
+  constructor(
+    cacheDir: string,
+    apiKey: string,
+    private limit: number
+  ) {
+    this.path = accountFilePath(cacheDir, apiKey, "trash");
+    this.entries = this.load();
+  }
+
+  private load(): TrashEntry[] {
+    try {
+      const stored = JSON.parse(readFileSync(this.path, "utf8"));
+      if (stored?.version === TRASH_VERSION && Array.isArray(stored.entries)) {
+        return stored.entries;
+      }
+      console.error(`[Trash] Ignoring unrecognised trash file ${this.path}`);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.error(`[Trash] Could not read trash file ${this.path}: ${error.message}`);
+      }
+    }
+    return [];
+  }
+
+  // Deleted subtrees are outline content too, so only the owner may read them
+  private async save(): Promise<void> {
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+    try {
+      await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+      await writeFile(tempPath, JSON.stringify({ version: TRASH_VERSION, entries: this.entries }), {
+        mode: 0o600,
+      });
+      await rename(tempPath, this.path);
+    } catch (error: any) {
+      console.error(`[Trash] Could not write trash file ${this.path}: ${error.message}`);
+    }
+  }
+
+  async add(entry: Omit<TrashEntry, "id" | "deletedAt">): Promise<TrashEntry> {
+    const deletedAt = Date.now();
+    const added = { id: `trash-${deletedAt.toString(36)}`, deletedAt, ...entry };
+    // Two deletes in the same millisecond must not share an ID
+    while (this.entries.some((e) => e.id === added.id)) added.id += "x";
+    this.entries.push(added);
+    if (this.entries.length > this.limit) this.entries.shift();
+    await this.save();
+    return added;
+  }
+
+  get(id: string): TrashEntry | undefined {
+    return this.entries.find((e) => e.id === id);
+  }
+
+  // Most recent first
+  list(): TrashEntry[] {
+    return [...this.entries].reverse();
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries = this.entries.filter((e) => e.id !== id);
+    await this.save();
+  }
+}
@@ -0,0 +1,146 @@
+// The request layer against a stubbed axios adapter: retries, backoff,
+// throttling, retry_after, and the mapping of failures to typed errors.
+
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+const axios = require('axios');
+
+// An axios error as the HTTP adapter raises it; no status means no response
+const axiosError = (config, status, data = {}) =>
+  new axios.AxiosError(
+    status ? `Request failed with status code ${status}` : 'connect ECONNREFUSED',
+    status ? 'ERR_BAD_RESPONSE' : 'ECONNREFUSED',
+    config,
+    {},
+    status ? { status, statusText: '', headers: {}, config, data } : undefined
+  );
+
+// An axios instance whose adapter answers each call with the next reply: a
+// status code to fail with, or [status, data]. Call times are recorded.
+const stubHttp = (replies) => {
+  const calls = [];
+  const http = axios.create({
+    adapter: async (config) => {
+      calls.push({ method: config.method, url: config.url, at: Date.now() });
+      const reply = replies.shift() ?? 200;
+      const [status, data] = Array.isArray(reply) ? reply : [reply, {}];
+      if (status === 0 || status >= 400) throw axiosError(config, status, data);
+      return { status, statusText: 'OK', headers: {}, config, data };
+    },
+  });
+  return { http, calls };
+};
+
+let api;
+before(async () => {
+  api = await import('../build/api-request.js');
+});
+
+describe('typed errors', () => {
+  const typed = (status, data) => api.toTypedError(axiosError({}, status, data), 'GET /nodes');
+
+  it('maps statuses to error classes', () => {
+    assert.ok(typed(404, { message: 'no such node' }) instanceof api.NotFoundError);
+    assert.match(typed(404, { message: 'no such node' }).message, /no such node/);
+    assert.ok(typed(401) instanceof api.AuthError);
+    assert.equal(typed(403).status, 403);
+    assert.ok(typed(0) instanceof api.NetworkError);
+    const server = typed(500, { message: 'boom' });
+    assert.equal(server.constructor, api.WorkflowyApiError);
+    assert.equal(server.message, 'Workflowy API error (500): boom');
+  });
+
+  it('reads retry_after from a 429, defaulting to a minute', () => {
+    assert.equal(typed(429, { retry_after: 12 }).retryAfter, 12);
+    assert.equal(typed(429).retryAfter, 60);
+  });
+
+  it('wraps other errors and passes typed ones through', () => {
+    const wrapped = api.toTypedError(new Error('odd'), 'GET /nodes');
+    assert.equal(wrapped.constructor, api.WorkflowyApiError);
+    assert.equal(wrapped.endpoint, 'GET /nodes');
+    const original = new api.NotFoundError('GET /nodes/:id', 'gone');
+    assert.equal(api.toTypedError(original, 'GET /nodes'), original);
+  });
+});
+
+describe('request layer', () => {
+  it('retries a failed read with growing backoff', async () => {
+    const { http, calls } = stubHttp([503, 0, [200, { nodes: [] }]]);
+    const layer = new api.RequestLayer(http, { baseBackoffMs: 20 });
+    const response = await layer.get('/nodes');
+    assert.deepEqual(response.data, { nodes: [] });
+    assert.equal(calls.length, 3);
+    // Jitter keeps each delay between half and one and a half times 20ms * 2^attempt
+    assert.ok(calls[1].at - calls[0].at >= 10);
+    assert.ok(calls[2].at - calls[1].at >= 20);
+  });
+
+  it('gives up after the last retry', async () => {
+    const { http, calls } = stubHttp([500, 500, 500]);
+    const layer = new api.RequestLayer(http, { maxRetries: 2, baseBackoffMs: 1 });
+    await assert.rejects(layer.get('/nodes'), (error) => error.status === 500);
+    assert.equal(calls.length, 3);
+  });
+
+  it('does not repeat a failed write', async () => {
+    const { http, calls } = stubHttp([503]);
+    const layer = new api.RequestLayer(http, { baseBackoffMs: 1 });
+    await assert.rejects(layer.post('/nodes', { name: 'x' }), (error) => error.status === 503);
+    assert.equal(calls.length, 1);
+  });
+
+  it('retries a rate-limited write after retry_after', async () => {
+    const { http, calls } = stubHttp([[429, { retry_after: 0.05 }], 200]);
+    const layer = new api.RequestLayer(http);
+    await layer.post('/nodes/abc/move', { parent_id: 'None' });
+    assert.equal(calls.length, 2);
+    assert.ok(calls[1].at - calls[0].at >= 45);
+  });
+
+  it('fails fast when retry_after is longer than it will wait', async () => {
+    const { http, calls } = stubHttp([[429, { retry_after: 30 }]]);
+    const layer = new api.RequestLayer(http, { maxWaitMs: 1000 });
+    await assert.rejects(layer.get('/nodes'), (error) => {
+      assert.ok(error instanceof api.RateLimitedError);
+      assert.equal(error.retryAfter, 30);
+      return true;
+    });
+    assert.equal(calls.length, 1);
+    // The endpoint stays closed until then, without another call
+    await assert.rejects(layer.get('/nodes'), api.RateLimitedError);
+    assert.equal(calls.length, 1);
+  });
+
+  it('spaces calls to the same endpoint', async () => {
+    const { http, calls } = stubHttp([]);
+    const layer = new api.RequestLayer(http, { minInterval: { 'GET /nodes/:id': 50 } });
+    await layer.get('/nodes/a');
+    await layer.get('/nodes/b');
+    await layer.get('/targets');
+    assert.ok(calls[1].at - calls[0].at >= 45);
+    assert.ok(calls[2].at - calls[1].at < 45);
+  });
+
+  it('retries a failed export without waiting out its minute', async () => {
+    const { http, calls } = stubHttp([0, [200, { nodes: [] }]]);
+    const layer = new api.RequestLayer(http, { baseBackoffMs: 1 });
+    const response = await layer.get('/nodes-export');
+    assert.deepEqual(response.data, { nodes: [] });
+    assert.equal(calls.length, 2);
+    // The successful call holds the window
+    await assert.rejects(layer.get('/nodes-export'), api.RateLimitedError);
+  });
+
+  it('refuses a call whose throttle window is too far off', async () => {
+    const { http, calls } = stubHttp([]);
+    const layer = new api.RequestLayer(http);
+    await layer.get('/nodes-export');
+    await assert.rejects(layer.get('/nodes-export'), (error) => {
+      assert.ok(error instanceof api.RateLimitedError);
+      assert.equal(error.retryAfter, 60);
+      return true;
+    });
+    assert.equal(calls.length, 1);
+  });
+});
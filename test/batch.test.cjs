@@ -0,0 +1,56 @@
+// Batches against a stub client: rate-limited operations are retried within
+// the batch's wait budget, and reported as rate limited past it.
+
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+
+describe('batch rate limits', () => {
+  let runBatch;
+  let RateLimitedError;
+  before(async () => {
+    ({ runBatch } = await import('../build/batch.js'));
+    ({ RateLimitedError } = await import('../build/api-request.js'));
+  });
+
+  // Every call to completeNode is rate limited for the given waits, in turn
+  const stubClient = (waits) => {
+    const calls = [];
+    return {
+      calls,
+      resolveNodeRef: async (ref) => ref,
+      completeNode: async (nodeId) => {
+        calls.push(nodeId);
+        const retryAfter = waits.shift();
+        if (retryAfter !== undefined) {
+          throw new RateLimitedError('POST /nodes/:id/complete', retryAfter);
+        }
+        return { status: 'ok' };
+      },
+    };
+  };
+
+  it('retries while the waits fit the budget', async () => {
+    const client = stubClient([0.01, 0.01]);
+    const result = await runBatch(client, [{ op: 'complete', nodeId: 'a' }], { maxWaitMs: 1000 });
+    assert.equal(result.completed, 1);
+    assert.deepEqual(client.calls, ['a', 'a', 'a']);
+  });
+
+  it('reports an operation as rate limited past the budget', async () => {
+    const client = stubClient([60]);
+    const started = Date.now();
+    const result = await runBatch(
+      client,
+      [
+        { op: 'complete', nodeId: 'a' },
+        { op: 'complete', nodeId: 'b' },
+      ],
+      { maxWaitMs: 1000 }
+    );
+    assert.ok(Date.now() - started < 1000);
+    assert.equal(result.rateLimited, 1);
+    assert.equal(result.skipped, 1);
+    assert.equal(result.results[0].status, 'rate_limited');
+    assert.equal(result.results[0].retryAfter, 60);
+  });
+});
@@ -0,0 +1,104 @@
+// Start the built server on stdio against the in-memory backend, seeded with
+// a small outline, and talk to it through the MCP client.
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Client } = require('@modelcontextprotocol/sdk/client/index.js');
+const { StdioClientTransport } = require('@modelcontextprotocol/sdk/client/stdio.js');
+
+const id = (n) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+const IDS = {
+  work: id(1),
+  projects: id(2),
+  launch: id(3),
+  docs: id(4),
+  templates: id(5),
+  sprint: id(6),
+  kickoff: id(7),
+  inbox: id(8),
+  personal: id(9),
+};
+
+const node = (nodeId, parentId, priority, name, extra = {}) => ({
+  id: nodeId,
+  name,
+  note: null,
+  parent_id: parentId,
+  priority,
+  completed: false,
+  completedAt: null,
+  createdAt: 1700000000,
+  modifiedAt: 1700000000,
+  data: { layoutMode: 'bullets' },
+  ...extra,
+});
+
+// Work > Projects > [Launch, Docs], Templates > Sprint > Kickoff, Inbox, Personal
+const SEED = {
+  nodes: [
+    node(IDS.work, null, 0, 'Work'),
+    node(IDS.projects, IDS.work, 0, 'Projects', { note: 'Active projects' }),
+    node(IDS.launch, IDS.projects, 0, 'Launch #api due:2020-01-15', {
+      data: { layoutMode: 'todo' },
+    }),
+    node(IDS.docs, IDS.projects, 1, 'Write docs #api-v2 @alice', {
+      data: { layoutMode: 'todo' },
+      completed: true,
+      completedAt: 1700000500,
+    }),
+    node(IDS.templates, null, 1, 'Templates'),
+    node(IDS.sprint, IDS.templates, 0, 'Sprint for {{client}} #template'),
+    node(IDS.kickoff, IDS.sprint, 0, 'Kickoff on {{date}} with {{contact|the PM}}', {
+      data: { layoutMode: 'todo' },
+    }),
+    node(IDS.inbox, null, 2, 'Inbox'),
+    node(IDS.personal, null, 3, 'Personal #home'),
+  ],
+  targets: [{ key: 'inbox', type: 'system', name: 'Inbox', nodeId: IDS.inbox }],
+};
+
+async function startServer({ env = {}, args = [] } = {}) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflowy-mcp-test-'));
+  const seedPath = path.join(dir, 'seed.json');
+  fs.writeFileSync(seedPath, JSON.stringify(SEED));
+
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [path.join(__dirname, '..', 'build', 'index.js'), ...args],
+    env: {
+      PATH: process.env.PATH,
+      WORKFLOWY_API_KEY: 'test-key',
+      WORKFLOWY_BACKEND: 'memory',
+      WORKFLOWY_FAKE_SEED: seedPath,
+      WORKFLOWY_CACHE_DIR: path.join(dir, 'cache'),
+      ...env,
+    },
+    stderr: 'ignore',
+  });
+  const client = new Client({ name: 'workflowy-mcp-test', version: '0.1.0' });
+  await client.connect(transport);
+
+  // Call a tool; the text is parsed as JSON when it is JSON
+  const call = async (name, toolArgs = {}) => {
+    const result = await client.callTool({ name, arguments: toolArgs });
+    const text = result.content.map((part) => part.text).join('\n');
+    let json;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      json = undefined;
+    }
+    return { isError: result.isError === true, text, json };
+  };
+
+  const close = async () => {
+    await client.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  };
+
+  return { client, call, close };
+}
+
+module.exports = { IDS, SEED, startServer };
@@ -0,0 +1,97 @@
+// HTTP sessions: idle ones are closed, and new ones are refused at the limit.
+// Requests naming a foreign host are refused before they reach a session.
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const http = require('node:http');
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'workflowy-mcp-test', version: '0.1.0' },
+  },
+};
+
+describe('http sessions', () => {
+  let httpServer;
+  let url;
+  const closed = [];
+  before(async () => {
+    const { startHttpServer } = await import('../build/http-transport.js');
+    const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+    const createServer = () => {
+      const server = new Server({ name: 'test', version: '0.1.0' }, { capabilities: {} });
+      server.onclose = () => closed.push(server);
+      return server;
+    };
+    httpServer = await startHttpServer(
+      { transport: 'http', host: '127.0.0.1', port: 0, sessionIdleMs: 200, maxSessions: 1 },
+      createServer
+    );
+    url = `http://127.0.0.1:${httpServer.address().port}/mcp`;
+  });
+  after(() => httpServer.close());
+
+  const post = (body, sessionId) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+  it('refuses a session over the limit and closes idle ones', async () => {
+    const first = await post(INITIALIZE);
+    assert.equal(first.status, 200);
+    await first.text();
+    const sessionId = first.headers.get('mcp-session-id');
+
+    const second = await post(INITIALIZE);
+    assert.equal(second.status, 503);
+    await second.text();
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    assert.equal(closed.length, 1);
+    const expired = await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, sessionId);
+    assert.equal(expired.status, 404);
+    await expired.text();
+
+    const third = await post(INITIALIZE);
+    assert.equal(third.status, 200);
+    await third.text();
+  });
+
+  // fetch will not set Host, so these go through node:http
+  const postWithHeaders = (headers) =>
+    new Promise((resolve, reject) => {
+      const req = http.request(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...headers,
+          },
+        },
+        (res) => {
+          res.resume();
+          res.on('end', () => resolve(res.statusCode));
+        }
+      );
+      req.on('error', reject);
+      req.end(JSON.stringify(INITIALIZE));
+    });
+
+  it('refuses a foreign Host or Origin', async () => {
+    assert.equal(await postWithHeaders({ Host: 'evil.example:3000' }), 403);
+    assert.equal(await postWithHeaders({ Origin: 'http://evil.example' }), 403);
+  });
+});
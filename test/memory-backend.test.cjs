@@ -0,0 +1,89 @@
+// The in-memory backend on its own: it should answer like the API does.
+
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+const { IDS, SEED } = require('./helpers.cjs');
+
+describe('MemoryBackend', () => {
+  let MemoryBackend;
+  let errors;
+  before(async () => {
+    ({ MemoryBackend } = await import('../build/memory-backend.js'));
+    errors = await import('../build/api-request.js');
+  });
+
+  const seeded = (options = {}) => new MemoryBackend({ ...SEED, ...options });
+
+  it('rate-limits exports with retry_after', async () => {
+    const backend = seeded({ exportIntervalMs: 30000 });
+    const { nodes } = await backend.exportNodes();
+    assert.equal(nodes.length, SEED.nodes.length);
+    await assert.rejects(backend.exportNodes(), (error) => {
+      assert.ok(error instanceof errors.RateLimitedError);
+      assert.ok(error.retryAfter > 0 && error.retryAfter <= 30);
+      return true;
+    });
+  });
+
+  it('returns copies, not its own nodes', async () => {
+    const backend = seeded();
+    const { node } = await backend.getNode(IDS.inbox);
+    node.name = 'changed';
+    assert.equal((await backend.getNode(IDS.inbox)).node.name, 'Inbox');
+  });
+
+  it('creates at the top level, under targets and at a priority', async () => {
+    const backend = seeded();
+    const top = await backend.createNode({ parent_id: 'None', name: 'Top' });
+    const inInbox = await backend.createNode({ parent_id: 'inbox', name: 'Filed' });
+    const first = await backend.createNode({ parent_id: IDS.projects, name: 'First', priority: 0 });
+
+    assert.equal((await backend.getNode(top.item_id)).node.parent_id, null);
+    assert.equal((await backend.getNode(inInbox.item_id)).node.parent_id, IDS.inbox);
+    const { nodes } = await backend.listNodes(IDS.projects);
+    assert.deepEqual(
+      nodes.map((n) => n.id),
+      [first.item_id, IDS.launch, IDS.docs]
+    );
+  });
+
+  it('deletes whole subtrees', async () => {
+    const backend = seeded();
+    await backend.deleteNode(IDS.work);
+    await assert.rejects(backend.getNode(IDS.launch), errors.NotFoundError);
+  });
+
+  it('moves nodes but not under themselves', async () => {
+    const backend = seeded();
+    await backend.moveNode(IDS.personal, { parent_id: IDS.work, priority: 0 });
+    const { nodes } = await backend.listNodes(IDS.work);
+    assert.deepEqual(
+      nodes.map((n) => n.id),
+      [IDS.personal, IDS.projects]
+    );
+    await assert.rejects(
+      backend.moveNode(IDS.work, { parent_id: IDS.launch }),
+      (error) => error instanceof errors.WorkflowyApiError && error.status === 400
+    );
+  });
+
+  it('completes and uncompletes', async () => {
+    const backend = seeded();
+    await backend.completeNode(IDS.launch);
+    let { node } = await backend.getNode(IDS.launch);
+    assert.equal(node.completed, true);
+    assert.ok(node.completedAt);
+    await backend.uncompleteNode(IDS.launch);
+    ({ node } = await backend.getNode(IDS.launch));
+    assert.equal(node.completed, false);
+  });
+
+  it('404s on unknown nodes and parents', async () => {
+    const backend = seeded();
+    await assert.rejects(backend.updateNode('missing', { name: 'x' }), errors.NotFoundError);
+    await assert.rejects(
+      backend.createNode({ parent_id: 'missing', name: 'x' }),
+      errors.NotFoundError
+    );
+  });
+});
@@ -0,0 +1,225 @@
+// Server modes, named accounts and rate limiting, through the MCP server
+// against the in-memory backend.
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { IDS, startServer } = require('./helpers.cjs');
+
+describe('read-only mode', () => {
+  let server;
+  before(async () => {
+    server = await startServer({ args: ['--read-only'] });
+  });
+  after(() => server.close());
+
+  it('hides mutating tools', async () => {
+    const { tools } = await server.client.listTools();
+    const names = tools.map((tool) => tool.name);
+    assert.ok(names.includes('workflowy_search'));
+    assert.ok(!names.includes('workflowy_create_node'));
+    assert.ok(!names.includes('workflowy_rename_tag'));
+  });
+
+  it('rejects mutating calls', async () => {
+    const result = await server.call('workflowy_delete_node', { nodeId: IDS.inbox });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /read-only mode/);
+    const { json } = await server.call('workflowy_get_node', { nodeId: IDS.inbox });
+    assert.equal(json.node.name, 'Inbox');
+  });
+});
+
+describe('confirm mode', () => {
+  let server;
+  before(async () => {
+    server = await startServer({ env: { WORKFLOWY_MODE: 'confirm' } });
+  });
+  after(() => server.close());
+
+  it('previews a delete and applies it with the token', async () => {
+    const preview = await server.call('workflowy_delete_node', { nodeId: IDS.projects });
+    assert.equal(preview.json.confirmationRequired, true);
+    let node = await server.call('workflowy_get_node', { nodeId: IDS.projects });
+    assert.equal(node.isError, false);
+
+    const applied = await server.call('workflowy_delete_node', {
+      nodeId: IDS.projects,
+      confirmationToken: preview.json.confirmationToken,
+    });
+    assert.equal(applied.json.status, 'ok');
+    node = await server.call('workflowy_get_node', { nodeId: IDS.projects });
+    assert.equal(node.isError, true);
+  });
+
+  it('refuses a token issued for other arguments', async () => {
+    const preview = await server.call('workflowy_move_node', {
+      nodeId: IDS.personal,
+      parentId: IDS.work,
+    });
+    const result = await server.call('workflowy_move_node', {
+      nodeId: IDS.personal,
+      parentId: IDS.inbox,
+      confirmationToken: preview.json.confirmationToken,
+    });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Not confirmed/);
+  });
+
+  it('needs a token to apply a tag rename', async () => {
+    const dryRun = await server.call('workflowy_rename_tag', { from: '#home', to: '#house' });
+    assert.equal(dryRun.json.dryRun, true);
+
+    const args = { from: '#home', to: '#house', dryRun: false };
+    const preview = await server.call('workflowy_rename_tag', args);
+    assert.equal(preview.json.confirmationRequired, true);
+    assert.deepEqual(
+      preview.json.preview.changes.map((change) => change.id),
+      [IDS.personal]
+    );
+    let personal = await server.call('workflowy_get_node', { nodeId: IDS.personal });
+    assert.match(personal.json.node.name, /#home$/);
+
+    const applied = await server.call('workflowy_rename_tag', {
+      ...args,
+      confirmationToken: preview.json.confirmationToken,
+    });
+    assert.equal(applied.json.completed, 1);
+    personal = await server.call('workflowy_get_node', { nodeId: IDS.personal });
+    assert.match(personal.json.node.name, /#house$/);
+  });
+
+  it('needs a token to apply a sort', async () => {
+    const args = { parentId: IDS.templates, by: 'name', descending: true, dryRun: false };
+    await server.call('workflowy_create_node', { parentId: IDS.templates, name: 'Zebra' });
+    const preview = await server.call('workflowy_sort_children', args);
+    assert.equal(preview.json.confirmationRequired, true);
+    assert.equal(preview.json.preview.moveCount, 1);
+    let { json } = await server.call('workflowy_list_nodes', { parentId: IDS.templates });
+    assert.equal(json.nodes[0].id, IDS.sprint);
+
+    const applied = await server.call('workflowy_sort_children', {
+      ...args,
+      confirmationToken: preview.json.confirmationToken,
+    });
+    assert.equal(applied.json.completed, 1);
+    ({ json } = await server.call('workflowy_list_nodes', { parentId: IDS.templates }));
+    assert.equal(json.nodes[0].name, 'Zebra');
+  });
+
+  it('previews an undo and binds the token to that entry', async () => {
+    await server.call('workflowy_create_node', { parentId: IDS.inbox, name: 'Scratch' });
+    const preview = await server.call('workflowy_undo', {});
+    assert.equal(preview.json.confirmationRequired, true);
+    assert.equal(preview.json.preview.effect, 'delete');
+    assert.equal(preview.json.preview.node.name, 'Scratch');
+    const { entryId } = preview.json.preview;
+
+    // A later change becomes the latest entry, so the token no longer matches
+    await server.call('workflowy_create_node', { parentId: IDS.inbox, name: 'Later' });
+    const stale = await server.call('workflowy_undo', {
+      confirmationToken: preview.json.confirmationToken,
+    });
+    assert.equal(stale.isError, true);
+    assert.match(stale.text, /Not confirmed/);
+
+    const again = await server.call('workflowy_undo', { entryId });
+    const applied = await server.call('workflowy_undo', {
+      entryId,
+      confirmationToken: again.json.confirmationToken,
+    });
+    assert.match(applied.json.undone, /Scratch/);
+    const { json } = await server.call('workflowy_list_nodes', { parentId: IDS.inbox });
+    const names = json.nodes.map((node) => node.name);
+    assert.ok(names.includes('Later'));
+    assert.ok(!names.includes('Scratch'));
+  });
+
+  it('runs other edits directly', async () => {
+    const result = await server.call('workflowy_update_node', { nodeId: IDS.inbox, note: 'x' });
+    assert.equal(result.json.status, 'ok');
+  });
+});
+
+describe('named accounts', () => {
+  let server;
+  before(async () => {
+    server = await startServer({ env: { WORKFLOWY_API_KEY_WORK: 'work-key' } });
+  });
+  after(() => server.close());
+
+  it('lists the accounts', async () => {
+    const { json } = await server.call('workflowy_list_accounts');
+    assert.deepEqual(
+      json.map((account) => [account.name, account.default]),
+      [
+        ['default', true],
+        ['work', false],
+      ]
+    );
+  });
+
+  it('keeps each account separate', async () => {
+    await server.call('workflowy_update_node', {
+      account: 'work',
+      nodeId: IDS.inbox,
+      name: 'Work inbox',
+    });
+    const work = await server.call('workflowy_get_node', { account: 'work', nodeId: IDS.inbox });
+    const personal = await server.call('workflowy_get_node', { nodeId: IDS.inbox });
+    assert.equal(work.json.node.name, 'Work inbox');
+    assert.equal(personal.json.node.name, 'Inbox');
+    // The account routes the call; it is not one of the changes
+    const history = await server.call('workflowy_history', { account: 'work', limit: 1 });
+    assert.match(history.json.entries[0].summary, /^Updated name of /);
+  });
+
+  it('copies a subtree to another account', async () => {
+    const { json } = await server.call('workflowy_copy_subtree', {
+      nodeId: IDS.sprint,
+      parentId: 'Personal #home',
+      targetAccount: 'work',
+    });
+    const copy = await server.call('workflowy_get_node_hierarchy', {
+      account: 'work',
+      nodeId: json.newRootId,
+    });
+    assert.equal(copy.json.parent_id, IDS.personal);
+    assert.equal(copy.json.children.length, 1);
+  });
+
+  it('rejects an unknown target account', async () => {
+    const result = await server.call('workflowy_copy_subtree', {
+      nodeId: IDS.sprint,
+      targetAccount: 'Work',
+    });
+    assert.equal(result.isError, true);
+    assert.deepEqual(result.json.issues, [
+      { field: 'targetAccount', message: 'must be one of default, work' },
+    ]);
+  });
+
+  it('rejects an unknown account', async () => {
+    const result = await server.call('workflowy_get_node', { account: 'nope', nodeId: IDS.inbox });
+    assert.equal(result.isError, true);
+    assert.deepEqual(result.json.issues, [
+      { field: 'account', message: 'must be one of default, work' },
+    ]);
+  });
+});
+
+describe('rate-limited exports', () => {
+  let server;
+  before(async () => {
+    // Every read wants a fresh export, but the fake allows one a minute
+    server = await startServer({ env: { WORKFLOWY_CACHE_TTL: '0' } });
+  });
+  after(() => server.close());
+
+  it('falls back to the cached snapshot', async () => {
+    const first = await server.call('workflowy_search', { query: 'Launch' });
+    assert.equal(first.json.resultCount, 1);
+    const second = await server.call('workflowy_search', { query: 'Launch' });
+    assert.equal(second.isError, false);
+    assert.equal(second.json.resultCount, 1);
+  });
+});
@@ -0,0 +1,43 @@
+// Files kept in the cache directory: they hold outline content, so only the
+// owner may read them.
+
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { SEED } = require('./helpers.cjs');
+
+const modeOf = (file) => fs.statSync(file).mode & 0o777;
+
+describe('cache files', () => {
+  let SnapshotStore;
+  let Trash;
+  let dir;
+  before(async () => {
+    ({ SnapshotStore } = await import('../build/snapshot-store.js'));
+    ({ Trash } = await import('../build/trash.js'));
+    dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'workflowy-mcp-test-')), 'cache');
+  });
+
+  it('writes the snapshot for the owner only', async () => {
+    const store = new SnapshotStore(dir, 'test-key');
+    await store.save({ timestamp: Date.now(), nodes: SEED.nodes });
+    assert.equal(modeOf(dir), 0o700);
+    assert.equal(modeOf(store.path), 0o600);
+    assert.equal(store.load().nodes.length, SEED.nodes.length);
+  });
+
+  it('writes the trash for the owner only', async () => {
+    const trash = new Trash(path.join(dir, 'trash'), 'test-key', 10);
+    await trash.add({
+      nodeId: SEED.nodes[0].id,
+      name: 'Work',
+      parentId: null,
+      parentBreadcrumb: '',
+      nodes: [SEED.nodes[0]],
+    });
+    assert.equal(modeOf(path.dirname(trash.path)), 0o700);
+    assert.equal(modeOf(trash.path), 0o600);
+  });
+});
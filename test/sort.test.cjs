@@ -0,0 +1,69 @@
+// Planning the moves that reorder a node's children.
+
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+
+const child = (n, extra = {}) => ({ id: `c${n}`, name: `Item ${n}`, priority: n, ...extra });
+
+// Apply moves the way moveNode places a node among its siblings
+function applyMoves(children, moves) {
+  const ids = children.map((c) => c.id);
+  for (const move of moves) {
+    ids.splice(ids.indexOf(move.nodeId), 1);
+    ids.splice(move.priority, 0, move.nodeId);
+  }
+  return ids;
+}
+
+describe('sorting children', () => {
+  let sortedChildren;
+  let planSort;
+  before(async () => {
+    ({ sortedChildren, planSort } = await import('../build/sort.js'));
+  });
+
+  it('sorts names naturally', () => {
+    const children = [child(10), child(2, { name: 'item 2' }), child(1)];
+    const names = sortedChildren(children, { by: 'name' }).map((c) => c.name);
+    assert.deepEqual(names, ['Item 1', 'item 2', 'Item 10']);
+  });
+
+  it('puts undated children last in either direction', () => {
+    const children = [
+      child(1),
+      child(2, { name: 'Ship due:2024-05-03' }),
+      child(3, { name: 'Plan due:2024-04-01' }),
+    ];
+    const order = (descending) =>
+      sortedChildren(children, { by: 'due', descending }, '2024-01-01').map((c) => c.id);
+    assert.deepEqual(order(false), ['c3', 'c2', 'c1']);
+    assert.deepEqual(order(true), ['c2', 'c3', 'c1']);
+  });
+
+  it('keeps unlisted children after an explicit order', () => {
+    const children = [child(1), child(2), child(3), child(4)];
+    const ids = sortedChildren(children, { by: 'order', order: ['c3', 'c1'] }).map((c) => c.id);
+    assert.deepEqual(ids, ['c3', 'c1', 'c2', 'c4']);
+    assert.throws(() => sortedChildren(children, { by: 'order', order: ['c9'] }), /c9/);
+  });
+
+  it('makes the fewest moves that reach the new order', () => {
+    const children = [1, 2, 3, 4, 5, 6, 7, 8].map((n) => child(n));
+    const cases = [
+      [[1, 2, 3, 4, 5, 6, 7, 8], 0],
+      [[8, 1, 2, 3, 4, 5, 6, 7], 1],
+      [[2, 1, 4, 3, 6, 5, 8, 7], 4],
+      [[8, 7, 6, 5, 4, 3, 2, 1], 7],
+      [[3, 1, 4, 8, 5, 2, 7, 6], 4],
+    ];
+    for (const [order, moveCount] of cases) {
+      const target = order.map((n) => children[n - 1]);
+      const { moves } = planSort(children, target);
+      assert.equal(moves.length, moveCount, `moves for ${order}`);
+      assert.deepEqual(
+        applyMoves(children, moves),
+        target.map((c) => c.id)
+      );
+    }
+  });
+});
@@ -0,0 +1,781 @@
+// Every tool, driven through the MCP server against the in-memory backend.
+// Run with `npm test` (builds first).
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { IDS, startServer } = require('./helpers.cjs');
+
+describe('reading', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  it('lists every tool with an account argument', async () => {
+    const { tools } = await server.client.listTools();
+    const names = tools.map((tool) => tool.name);
+    assert.ok(names.includes('workflowy_create_node'));
+    assert.ok(names.includes('workflowy_list_accounts'));
+    for (const tool of tools) {
+      if (tool.name === 'workflowy_list_accounts') continue;
+      assert.ok(tool.inputSchema.properties.account, `${tool.name} has no account argument`);
+    }
+  });
+
+  it('gets a node', async () => {
+    const { json } = await server.call('workflowy_get_node', { nodeId: IDS.projects });
+    assert.equal(json.node.name, 'Projects');
+    assert.equal(json.node.note, 'Active projects');
+  });
+
+  it('lists children by path', async () => {
+    const { json } = await server.call('workflowy_list_nodes', { parentId: 'Work > Projects' });
+    assert.deepEqual(
+      json.nodes.map((n) => n.id),
+      [IDS.launch, IDS.docs]
+    );
+  });
+
+  it('lists the top level', async () => {
+    const { json } = await server.call('workflowy_list_nodes');
+    assert.deepEqual(
+      json.nodes.map((n) => n.name),
+      ['Work', 'Templates', 'Inbox', 'Personal #home']
+    );
+  });
+
+  it('searches text with breadcrumbs', async () => {
+    const { json } = await server.call('workflowy_search', { query: 'docs' });
+    assert.equal(json.resultCount, 1);
+    assert.equal(json.results[0].id, IDS.docs);
+    assert.equal(json.results[0].breadcrumb, 'Work > Projects');
+  });
+
+  it('searches with the query syntax', async () => {
+    const { json } = await server.call('workflowy_search', {
+      query: '#api is:todo',
+      syntax: 'query',
+    });
+    assert.deepEqual(
+      json.results.map((n) => n.id),
+      [IDS.launch]
+    );
+  });
+
+  it('scopes a query to a path with under:', async () => {
+    const { json } = await server.call('workflowy_search', {
+      query: 'under:Work > Projects is:todo',
+      syntax: 'query',
+    });
+    assert.deepEqual(
+      json.results.map((n) => n.id),
+      [IDS.launch, IDS.docs]
+    );
+    const missing = await server.call('workflowy_search', {
+      query: 'under:"Work > Nowhere"',
+      syntax: 'query',
+    });
+    assert.equal(missing.isError, true);
+    assert.match(missing.text, /Nowhere/);
+  });
+
+  it('reports query syntax errors as tool errors', async () => {
+    const result = await server.call('workflowy_search', { query: '(open', syntax: 'query' });
+    assert.equal(result.isError, true);
+  });
+
+  it('gets a hierarchy to a depth', async () => {
+    const { json } = await server.call('workflowy_get_node_hierarchy', {
+      nodeId: IDS.work,
+      depth: 2,
+    });
+    assert.equal(json.children[0].name, 'Projects');
+    assert.equal(json.children[0].children.length, 2);
+  });
+
+  it('exports markdown, OPML, plain text and JSON', async () => {
+    const markdown = await server.call('workflowy_export', {
+      format: 'markdown',
+      nodeId: IDS.work,
+    });
+    assert.match(markdown.text, /^- Work\n {2}- Projects\n/);
+    assert.match(markdown.text, /- \[x\] Write docs/);
+
+    const opml = await server.call('workflowy_export', { format: 'opml' });
+    assert.match(opml.text, /<outline text="Write docs #api-v2 @alice" _complete="true"\/>/);
+
+    const plain = await server.call('workflowy_export', { format: 'plaintext', nodeId: IDS.work });
+    assert.match(plain.text, /Projects/);
+
+    const json = await server.call('workflowy_export', { format: 'json', nodeId: IDS.projects });
+    assert.ok(json.json, 'JSON export parses');
+  });
+
+  it('lists targets without internal fields', async () => {
+    const { json } = await server.call('workflowy_list_targets');
+    assert.deepEqual(json.targets, [{ key: 'inbox', type: 'system', name: 'Inbox' }]);
+  });
+
+  it('reports cache status', async () => {
+    const { json } = await server.call('workflowy_cache_status');
+    assert.equal(json.source, 'api');
+    assert.equal(json.nodeCount, 9);
+  });
+
+  it('lists accounts', async () => {
+    const { json } = await server.call('workflowy_list_accounts');
+    assert.equal(json.length, 1);
+    assert.equal(json[0].name, 'default');
+    assert.equal(json[0].default, true);
+  });
+
+  it('lists tasks with due dates and rollups', async () => {
+    const { json } = await server.call('workflowy_list_tasks', { overdue: true });
+    assert.equal(json.total, 1);
+    assert.equal(json.tasks[0].id, IDS.launch);
+    assert.equal(json.tasks[0].due, '2020-01-15');
+    assert.equal(json.rollups[0].id, IDS.projects);
+    assert.equal(json.rollups[0].percentComplete, 50);
+  });
+
+  it('lists tags and mentions', async () => {
+    const { json } = await server.call('workflowy_list_tags');
+    assert.deepEqual(
+      json.tags.map((entry) => entry.tag),
+      ['@alice', '#api', '#api-v2', '#home', '#template']
+    );
+    const mentions = await server.call('workflowy_list_tags', { kind: 'mention' });
+    assert.deepEqual(
+      mentions.json.tags.map((entry) => entry.tag),
+      ['@alice']
+    );
+  });
+
+  it('finds nodes by exact tag', async () => {
+    const { json } = await server.call('workflowy_get_tag', { tag: '#api' });
+    assert.deepEqual(
+      json.nodes.map((n) => n.id),
+      [IDS.launch]
+    );
+  });
+
+  it('lists templates with their variables', async () => {
+    const { json } = await server.call('workflowy_list_templates');
+    assert.equal(json.templates.length, 1);
+    assert.equal(json.templates[0].name, 'Sprint for {{client}}');
+    const variables = Object.fromEntries(json.templates[0].variables.map((v) => [v.name, v]));
+    assert.equal(variables.client.required, true);
+    assert.equal(variables.date.builtin, true);
+    assert.equal(variables.contact.default, 'the PM');
+  });
+
+  it('reads resources', async () => {
+    const { resources } = await server.client.listResources();
+    assert.deepEqual(
+      resources.map((r) => r.uri),
+      ['workflowy://root', 'workflowy://target/inbox']
+    );
+    const root = await server.client.readResource({ uri: 'workflowy://root' });
+    assert.match(root.contents[0].text, /Work/);
+    const node = await server.client.readResource({ uri: `workflowy://node/${IDS.projects}` });
+    assert.match(node.contents[0].text, /Launch #api/);
+  });
+
+  it('builds prompts from the outline', async () => {
+    const { prompts } = await server.client.listPrompts();
+    assert.ok(prompts.some((p) => p.name === 'summarize_subtree'));
+    const result = await server.client.getPrompt({
+      name: 'summarize_subtree',
+      arguments: { nodeId: IDS.projects },
+    });
+    assert.match(result.messages[0].content.text, /Launch #api/);
+  });
+
+  it('reports outline stats', async () => {
+    const { json } = await server.call('workflowy_stats', {});
+    assert.equal(json.counts.nodes, 9);
+    assert.deepEqual(json.counts.tasks, { total: 3, completed: 1, open: 2, percentComplete: 33 });
+    assert.equal(json.depth.max, 3);
+    assert.equal(json.widestParents[0].id, IDS.projects);
+    assert.equal(json.largestSubtrees[0].descendantCount, 3);
+    assert.deepEqual(
+      json.branches.map((branch) => [branch.name, branch.nodeCount, branch.tasks.open]),
+      [
+        ['Work', 4, 1],
+        ['Templates', 3, 1],
+        ['Inbox', 1, 0],
+        ['Personal #home', 1, 0],
+      ]
+    );
+    // The seed was last modified in 2023
+    assert.equal(json.stale.nodeCount, 9);
+    assert.equal(json.stale.subtreeCount, 4);
+    assert.equal(json.stale.subtrees[0].nodeCount, 4);
+  });
+
+  it('scopes stats to a subtree', async () => {
+    const { json } = await server.call('workflowy_stats', {
+      nodeId: 'Work',
+      staleDays: 100000,
+    });
+    assert.equal(json.scope.id, IDS.work);
+    assert.equal(json.counts.nodes, 3);
+    assert.equal(json.depth.max, 2);
+    assert.equal(json.stale.subtreeCount, 0);
+  });
+});
+
+describe('result shaping', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+    await server.call('workflowy_create_node', {
+      parentId: IDS.inbox,
+      name: 'Long read',
+      note: 'lorem ipsum '.repeat(300),
+    });
+  });
+  after(() => server.close());
+
+  it('keeps only the chosen fields', async () => {
+    const { json } = await server.call('workflowy_list_nodes', {
+      parentId: IDS.projects,
+      fields: ['name', 'breadcrumb'],
+    });
+    assert.deepEqual(json.nodes, [
+      { id: IDS.launch, name: 'Launch #api due:2020-01-15', breadcrumb: 'Work > Projects' },
+      { id: IDS.docs, name: 'Write docs #api-v2 @alice', breadcrumb: 'Work > Projects' },
+    ]);
+  });
+
+  it('renders one line per node in compact output', async () => {
+    const { text } = await server.call('workflowy_get_tag', { tag: '#api', output: 'compact' });
+    assert.equal(
+      text,
+      `Nodes tagged #api: 1\nLaunch #api due:2020-01-15 | Work > Projects | ${IDS.launch}`
+    );
+  });
+
+  it('keeps a multi-line name on one compact line', async () => {
+    await server.call('workflowy_create_node', { parentId: IDS.inbox, name: 'line one\nline two' });
+    const { text } = await server.call('workflowy_search', {
+      query: 'line one',
+      output: 'compact',
+    });
+    const lines = text.split('\n');
+    assert.equal(lines.length, 2);
+    assert.match(lines[1], /^line one line two \| Inbox \| /);
+  });
+
+  it('pages through results with a cursor', async () => {
+    const first = await server.call('workflowy_search', { query: 'o', pageSize: 2 });
+    assert.equal(first.json.results.length, 2);
+    assert.deepEqual(first.json.page, { offset: 0, returned: 2, total: first.json.resultCount });
+
+    const seen = first.json.results.map((node) => node.id);
+    let cursor = first.json.nextCursor;
+    while (cursor) {
+      const next = await server.call('workflowy_search', { query: 'o', pageSize: 2, cursor });
+      seen.push(...next.json.results.map((node) => node.id));
+      cursor = next.json.nextCursor;
+    }
+    assert.equal(new Set(seen).size, first.json.resultCount);
+  });
+
+  it('refuses a cursor from another call', async () => {
+    const first = await server.call('workflowy_search', { query: 'o', pageSize: 1 });
+    const result = await server.call('workflowy_search', {
+      query: 'docs',
+      cursor: first.json.nextCursor,
+    });
+    assert.equal(result.isError, true);
+    assert.equal(result.json.issues[0].field, 'cursor');
+  });
+
+  it('stops at the budget and says what it left out', async () => {
+    const { text, json } = await server.call('workflowy_search', {
+      query: 'lorem',
+      searchNote: true,
+      maxChars: 1000,
+    });
+    assert.ok(text.length < 1200, `${text.length} characters`);
+    assert.equal(json.results.length, 1);
+    assert.match(json.results[0].note, /characters omitted\]$/);
+
+    const all = await server.call('workflowy_export', { maxChars: 1000 });
+    assert.ok(all.json.page.returned < all.json.page.total);
+    assert.match(all.json.omitted, /did not fit in about 1000 characters/);
+    assert.ok(all.json.nextCursor);
+  });
+
+  it('truncates text exports at a line', async () => {
+    const markdown = await server.call('workflowy_export', {
+      format: 'markdown',
+      maxTokens: 250,
+    });
+    assert.ok(markdown.text.length <= 1000);
+    assert.match(markdown.text, /\n… truncated: \d+ more line\(s\)/);
+
+    const opml = await server.call('workflowy_export', { format: 'opml', maxChars: 1000 });
+    assert.match(opml.text, /<!-- truncated: .* -->\n {2}<\/body>\n<\/opml>$/);
+  });
+
+  it('drops the deepest levels of a hierarchy that does not fit', async () => {
+    const args = { nodeId: IDS.work, depth: 3 };
+    const { json } = await server.call('workflowy_get_node_hierarchy', { ...args, maxChars: 1000 });
+    assert.equal(json.children[0].name, 'Projects');
+    assert.equal(json.children[0].children, undefined);
+    assert.match(json.omitted, /levels below depth 1 did not fit/);
+
+    const compact = await server.call('workflowy_get_node_hierarchy', {
+      ...args,
+      output: 'compact',
+    });
+    assert.deepEqual(compact.text.split('\n'), [
+      `Work | ${IDS.work}`,
+      `  Projects | ${IDS.projects}`,
+      `    Launch #api due:2020-01-15 | ${IDS.launch}`,
+      `    Write docs #api-v2 @alice | ${IDS.docs}`,
+    ]);
+  });
+
+  it('shapes tag lists by tag', async () => {
+    const { json } = await server.call('workflowy_list_tags', {
+      fields: ['nodeCount'],
+      pageSize: 2,
+    });
+    assert.deepEqual(json.tags, [
+      { tag: '@alice', nodeCount: 1 },
+      { tag: '#api', nodeCount: 1 },
+    ]);
+    assert.ok(json.nextCursor);
+
+    const compact = await server.call('workflowy_list_tags', {
+      kind: 'mention',
+      output: 'compact',
+    });
+    assert.equal(compact.text, 'Tags: 1\n@alice | 1 node(s), 0 open');
+  });
+});
+
+describe('argument validation', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  it('advertises the schemas it validates against', async () => {
+    const { tools } = await server.client.listTools();
+    const create = tools.find((tool) => tool.name === 'workflowy_create_node');
+    assert.deepEqual(create.inputSchema.required, ['name']);
+    assert.equal(create.inputSchema.additionalProperties, false);
+    assert.deepEqual(create.inputSchema.properties.layoutMode.enum, [
+      'bullets',
+      'todo',
+      'h1',
+      'h2',
+      'h3',
+      'code-block',
+      'quote-block',
+    ]);
+    assert.equal(create.inputSchema.properties.priority.type, 'integer');
+  });
+
+  it('names each offending field', async () => {
+    const result = await server.call('workflowy_create_node', {
+      name: 'x',
+      layoutMode: 'fancy',
+      parent_id: IDS.inbox,
+    });
+    assert.equal(result.isError, true);
+    assert.equal(result.json.tool, 'workflowy_create_node');
+    assert.deepEqual(
+      result.json.issues.map((issue) => issue.field),
+      ['layoutMode', 'parent_id']
+    );
+    assert.match(result.json.issues[0].message, /must be one of bullets, todo/);
+  });
+
+  it('reports missing and mistyped arguments', async () => {
+    const missing = await server.call('workflowy_move_node', { nodeId: IDS.personal });
+    assert.deepEqual(missing.json.issues, [{ field: 'parentId', message: 'is required' }]);
+
+    const mistyped = await server.call('workflowy_get_node_hierarchy', {
+      nodeId: IDS.work,
+      depth: 9,
+    });
+    assert.deepEqual(mistyped.json.issues, [{ field: 'depth', message: 'must be at most 5' }]);
+
+    const nested = await server.call('workflowy_instantiate_template', {
+      template: 'Sprint for {{client}}',
+      variables: { client: ['Acme'] },
+    });
+    assert.deepEqual(nested.json.issues, [
+      { field: 'variables.client', message: 'must be a string, number or boolean, not an array' },
+    ]);
+  });
+
+  it('validates batch operations by path', async () => {
+    const result = await server.call('workflowy_batch', {
+      operations: [{ op: 'create', name: 'ok' }, { op: 'explode' }],
+    });
+    assert.deepEqual(
+      result.json.issues.map((issue) => issue.field),
+      ['operations[1].op']
+    );
+  });
+
+  it('changes nothing when arguments are invalid', async () => {
+    await server.call('workflowy_update_node', {
+      nodeId: IDS.inbox,
+      name: 'Renamed',
+      priority: -1,
+    });
+    const { json } = await server.call('workflowy_get_node', { nodeId: IDS.inbox });
+    assert.equal(json.node.name, 'Inbox');
+  });
+});
+
+describe('editing', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+    // Load the snapshot so edits are patched into it and journalled by name
+    await server.call('workflowy_cache_status');
+  });
+  after(() => server.close());
+
+  it('creates a node under a path', async () => {
+    const created = await server.call('workflowy_create_node', {
+      name: 'Release notes',
+      parentId: 'Work > Projects',
+      layoutMode: 'todo',
+    });
+    assert.ok(created.json.item_id);
+    const { json } = await server.call('workflowy_list_nodes', { parentId: IDS.projects });
+    assert.deepEqual(
+      json.nodes.map((n) => n.name),
+      ['Launch #api due:2020-01-15', 'Write docs #api-v2 @alice', 'Release notes']
+    );
+  });
+
+  it('creates at a target key', async () => {
+    const created = await server.call('workflowy_create_node', {
+      name: 'Call Bob',
+      parentId: 'inbox',
+    });
+    const { json } = await server.call('workflowy_get_node', { nodeId: created.json.item_id });
+    assert.equal(json.node.parent_id, IDS.inbox);
+    // The cached copy sits under the inbox node too, not under "inbox"
+    const inbox = await server.call('workflowy_get_node_hierarchy', { nodeId: IDS.inbox });
+    assert.ok(inbox.json.children.some((child) => child.id === created.json.item_id));
+  });
+
+  it('lists a node with a due marker in its note as a task', async () => {
+    const created = await server.call('workflowy_create_node', {
+      parentId: IDS.inbox,
+      name: 'Renew passport',
+      note: 'due:2019-05-01',
+    });
+    const { json } = await server.call('workflowy_list_tasks', { overdue: true });
+    const task = json.tasks.find((t) => t.id === created.json.item_id);
+    assert.equal(task.due, '2019-05-01');
+  });
+
+  it('updates a node', async () => {
+    await server.call('workflowy_update_node', { nodeId: IDS.personal, note: 'Errands' });
+    const { json } = await server.call('workflowy_get_node', { nodeId: IDS.personal });
+    assert.equal(json.node.note, 'Errands');
+    assert.equal(json.node.name, 'Personal #home');
+  });
+
+  it('completes and uncompletes a node', async () => {
+    await server.call('workflowy_complete_node', { nodeId: IDS.launch });
+    let { json } = await server.call('workflowy_get_node', { nodeId: IDS.launch });
+    assert.equal(json.node.completed, true);
+    await server.call('workflowy_uncomplete_node', { nodeId: IDS.launch });
+    ({ json } = await server.call('workflowy_get_node', { nodeId: IDS.launch }));
+    assert.equal(json.node.completed, false);
+  });
+
+  it('moves a node and refuses to move one under itself', async () => {
+    await server.call('workflowy_move_node', {
+      nodeId: IDS.personal,
+      parentId: 'Work',
+      priority: 0,
+    });
+    const { json } = await server.call('workflowy_list_nodes', { parentId: IDS.work });
+    assert.deepEqual(
+      json.nodes.map((n) => n.id),
+      [IDS.personal, IDS.projects]
+    );
+
+    const cycle = await server.call('workflowy_move_node', {
+      nodeId: IDS.work,
+      parentId: IDS.projects,
+    });
+    assert.equal(cycle.isError, true);
+    assert.match(cycle.text, /400/);
+  });
+
+  it('imports an indented outline', async () => {
+    const { json } = await server.call('workflowy_import_outline', {
+      content: '- Groceries\n  - Milk\n  - [ ] Eggs\n- Laundry',
+      parentId: IDS.inbox,
+    });
+    assert.equal(json.createdCount, 4);
+    assert.equal(json.created[1].parentId, json.created[0].id);
+    const eggs = await server.call('workflowy_get_node', { nodeId: json.created[2].id });
+    assert.equal(eggs.json.node.data.layoutMode, 'todo');
+  });
+
+  it('deletes to the trash and restores', async () => {
+    const deleted = await server.call('workflowy_delete_node', { nodeId: IDS.projects });
+    assert.equal(deleted.json.backedUpNodes, 4);
+    const gone = await server.call('workflowy_get_node', { nodeId: IDS.projects });
+    assert.equal(gone.isError, true);
+
+    const trash = await server.call('workflowy_list_trash');
+    assert.equal(trash.json.entries[0].nodeId, IDS.projects);
+    assert.equal(trash.json.entries[0].nodeCount, 4);
+
+    const restored = await server.call('workflowy_restore_deleted', {
+      trashId: deleted.json.trashId,
+    });
+    assert.equal(restored.isError, false);
+    const search = await server.call('workflowy_search', { query: 'Release notes' });
+    assert.equal(search.json.resultCount, 1);
+    assert.equal(search.json.results[0].breadcrumb, 'Work > Projects');
+  });
+
+  it('records history and undoes the latest change', async () => {
+    await server.call('workflowy_update_node', { nodeId: IDS.inbox, name: 'Inbox (triage)' });
+    const history = await server.call('workflowy_history', { limit: 1 });
+    assert.equal(history.json.entries[0].operation, 'update');
+    assert.equal(history.json.entries[0].undoable, true);
+
+    const undo = await server.call('workflowy_undo');
+    assert.match(undo.json.undone, /Inbox/);
+    const { json } = await server.call('workflowy_get_node', { nodeId: IDS.inbox });
+    assert.equal(json.node.name, 'Inbox');
+  });
+
+  it('clears the trash entry when a delete is undone', async () => {
+    const created = await server.call('workflowy_create_node', {
+      parentId: IDS.inbox,
+      name: 'Old idea',
+    });
+    const deleted = await server.call('workflowy_delete_node', { nodeId: created.json.item_id });
+    await server.call('workflowy_undo');
+
+    const trash = await server.call('workflowy_list_trash');
+    assert.ok(!trash.json.entries.some((entry) => entry.id === deleted.json.trashId));
+    const restored = await server.call('workflowy_restore_deleted', {
+      trashId: deleted.json.trashId,
+    });
+    assert.equal(restored.isError, true);
+    assert.deepEqual(
+      restored.json.issues.map((issue) => issue.field),
+      ['trashId']
+    );
+  });
+
+  it('marks a delete as undone when it is restored from the trash', async () => {
+    const created = await server.call('workflowy_create_node', {
+      parentId: IDS.inbox,
+      name: 'Spare',
+    });
+    const deleted = await server.call('workflowy_delete_node', { nodeId: created.json.item_id });
+    await server.call('workflowy_restore_deleted', { trashId: deleted.json.trashId });
+
+    const { json } = await server.call('workflowy_history', { limit: 5 });
+    const deletion = json.entries.find((entry) => entry.operation === 'delete');
+    assert.equal(deletion.undoable, false);
+    assert.ok(deletion.undoneBy);
+    assert.equal(json.entries[0].undoOf, deletion.id);
+  });
+
+  it('reports changes since the first snapshot', async () => {
+    const { json } = await server.call('workflowy_changes_since');
+    const added = json.changes.filter((c) => c.type === 'added').map((c) => c.name);
+    assert.ok(added.includes('Call Bob'));
+    assert.ok(added.includes('Groceries'));
+    assert.ok(json.changes.some((c) => c.type === 'moved' && c.id === IDS.personal));
+  });
+
+  it('reports arguments that name nothing as tool errors', async () => {
+    const result = await server.call('workflowy_sort_children', {
+      parentId: IDS.work,
+      by: 'order',
+      order: ['c9'],
+    });
+    assert.equal(result.isError, true);
+    assert.equal(result.json.tool, 'workflowy_sort_children');
+    assert.deepEqual(
+      result.json.issues.map((issue) => issue.field),
+      ['order']
+    );
+    const tasks = await server.call('workflowy_list_tasks', { dueFrom: 'someday' });
+    assert.equal(tasks.isError, true);
+    assert.match(tasks.text, /dueFrom must be YYYY-MM-DD/);
+    const undo = await server.call('workflowy_undo', { entryId: 'nope' });
+    assert.equal(undo.isError, true);
+    assert.equal(undo.json.issues[0].field, 'entryId');
+  });
+
+  it('rejects unknown node IDs', async () => {
+    const result = await server.call('workflowy_update_node', {
+      nodeId: '00000000-0000-4000-8000-00000000dead',
+      name: 'x',
+    });
+    assert.equal(result.isError, true);
+  });
+
+  it('sorts children with a dry run first', async () => {
+    for (const name of ['Item 10', 'item 2', 'Item 1']) {
+      await server.call('workflowy_create_node', { parentId: IDS.personal, name });
+    }
+    const preview = await server.call('workflowy_sort_children', {
+      parentId: IDS.personal,
+      by: 'name',
+    });
+    assert.equal(preview.json.dryRun, true);
+    assert.deepEqual(
+      preview.json.moves.map((move) => [move.name, move.priority]),
+      [
+        ['Item 1', 0],
+        ['item 2', 1],
+      ]
+    );
+    let { json } = await server.call('workflowy_list_nodes', { parentId: IDS.personal });
+    assert.equal(json.nodes[0].name, 'Item 10');
+
+    const applied = await server.call('workflowy_sort_children', {
+      parentId: IDS.personal,
+      by: 'name',
+      dryRun: false,
+    });
+    assert.equal(applied.json.completed, 2);
+    ({ json } = await server.call('workflowy_list_nodes', { parentId: IDS.personal }));
+    assert.deepEqual(
+      json.nodes.map((node) => node.name),
+      ['Item 1', 'item 2', 'Item 10']
+    );
+  });
+
+  it('needs order exactly when sorting by order', async () => {
+    const result = await server.call('workflowy_sort_children', {
+      parentId: IDS.projects,
+      by: 'name',
+      order: [IDS.docs],
+    });
+    assert.equal(result.isError, true);
+    assert.equal(result.json.issues[0].field, 'order');
+  });
+});
+
+describe('bulk operations', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+    await server.call('workflowy_cache_status');
+  });
+  after(() => server.close());
+
+  it('runs a batch with references to created nodes', async () => {
+    const { json } = await server.call('workflowy_batch', {
+      operations: [
+        { op: 'create', ref: 'sprint', parentId: IDS.work, name: 'Sprint 12' },
+        { op: 'move', nodeId: IDS.launch, parentId: '$sprint' },
+        { op: 'complete', nodeId: '$sprint' },
+      ],
+    });
+    assert.equal(json.completed, 3);
+    const sprintId = json.results[0].nodeId;
+    const launch = await server.call('workflowy_get_node', { nodeId: IDS.launch });
+    assert.equal(launch.json.node.parent_id, sprintId);
+    const sprint = await server.call('workflowy_get_node', { nodeId: sprintId });
+    assert.equal(sprint.json.node.completed, true);
+  });
+
+  it('rejects a malformed batch before running it', async () => {
+    const result = await server.call('workflowy_batch', {
+      operations: [
+        { op: 'create', parentId: IDS.inbox, name: 'Never created' },
+        { op: 'move', nodeId: IDS.personal },
+      ],
+    });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Invalid batch:\noperations\[1\]\.parentId is required/);
+    const search = await server.call('workflowy_search', { query: 'Never created' });
+    assert.equal(search.json.resultCount, 0);
+  });
+
+  it('stops a batch at the first failure', async () => {
+    const { json } = await server.call('workflowy_batch', {
+      operations: [
+        { op: 'update', nodeId: '00000000-0000-4000-8000-00000000dead', name: 'x' },
+        { op: 'update', nodeId: IDS.inbox, name: 'Never' },
+      ],
+    });
+    assert.equal(json.failed, 1);
+    assert.equal(json.skipped, 1);
+  });
+
+  it('copies a subtree and resets completion', async () => {
+    const { json } = await server.call('workflowy_copy_subtree', {
+      nodeId: IDS.projects,
+      parentId: IDS.inbox,
+      resetCompletion: true,
+    });
+    assert.equal(json.nodeCount, 2);
+    const docsCopy = await server.call('workflowy_get_node', { nodeId: json.idMap[IDS.docs] });
+    assert.equal(docsCopy.json.node.name, 'Write docs #api-v2 @alice');
+    assert.equal(docsCopy.json.node.completed, false);
+  });
+
+  it('instantiates a template', async () => {
+    const { json } = await server.call('workflowy_instantiate_template', {
+      template: 'Sprint for {{client}}',
+      parentId: IDS.inbox,
+      variables: { client: 'Acme' },
+    });
+    assert.equal(json.name, 'Sprint for Acme');
+    const hierarchy = await server.call('workflowy_get_node_hierarchy', { nodeId: json.newRootId });
+    assert.match(hierarchy.json.children[0].name, /^Kickoff on \d{4}-\d{2}-\d{2} with the PM$/);
+  });
+
+  it('requires template variables', async () => {
+    const result = await server.call('workflowy_instantiate_template', {
+      template: 'Sprint for {{client}}',
+      parentId: IDS.inbox,
+    });
+    assert.equal(result.isError, true);
+    assert.equal(result.json.tool, 'workflowy_instantiate_template');
+    assert.deepEqual(result.json.issues, [
+      { field: 'variables.client', message: 'is required by the template' },
+    ]);
+  });
+
+  it('previews and applies a tag rename', async () => {
+    const preview = await server.call('workflowy_rename_tag', { from: '#api', to: '#backend' });
+    assert.equal(preview.json.dryRun, true);
+    assert.equal(preview.json.changes.length, 1);
+    let launch = await server.call('workflowy_get_node', { nodeId: IDS.launch });
+    assert.match(launch.json.node.name, /#api /);
+
+    const applied = await server.call('workflowy_rename_tag', {
+      from: '#api',
+      to: '#backend',
+      dryRun: false,
+    });
+    assert.equal(applied.json.completed, 1);
+    launch = await server.call('workflowy_get_node', { nodeId: IDS.launch });
+    assert.equal(launch.json.node.name, 'Launch #backend due:2020-01-15');
+    // #api-v2 is a different tag
+    const docs = await server.call('workflowy_get_node', { nodeId: IDS.docs });
+    assert.match(docs.json.node.name, /#api-v2/);
+  });
+});